@@ -0,0 +1,138 @@
+/**
+ * Amplitude HTTP V2 API compatibility
+ *
+ * Translates the body of an Amplitude `/2/httpapi` request into analytics
+ * events, so legacy Amplitude clients can send to the ingestion worker
+ * unchanged. https://amplitude.com/docs/apis/analytics/http-v2
+ */
+
+import type { AnalyticsEvent, EventContext } from './event-schema.js';
+import type { TranslationResult } from './mixpanel.js';
+
+type JsonObject = Record<string, unknown>;
+
+/** Revenue fields copied into the event's properties */
+const REVENUE_PROPERTIES: Record<string, string> = {
+  revenue: 'revenue',
+  price: 'price',
+  quantity: 'quantity',
+  productId: 'product_id',
+  revenueType: 'revenue_type',
+};
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * Read user or group properties, which are either plain values or identify
+ * operations; `$set` and `$setOnce` become traits, other operations are skipped
+ */
+function toTraits(value: unknown): JsonObject {
+  if (!isObject(value)) return {};
+  if (!Object.keys(value).some(key => key.startsWith('$'))) return value;
+
+  return {
+    ...(isObject(value.$setOnce) ? value.$setOnce : {}),
+    ...(isObject(value.$set) ? value.$set : {}),
+  };
+}
+
+function buildContext(record: JsonObject): EventContext {
+  const context: EventContext = {};
+
+  const ip = asString(record.ip);
+  if (ip && ip !== '$remote') context.ip = ip;
+
+  const locale = asString(record.language);
+  if (locale) context.locale = locale;
+
+  // e.g. "amplitude-ts/2.1.0"
+  const library = asString(record.library);
+  if (library) {
+    const [name, version = ''] = library.split('/');
+    context.library = { name, version };
+  }
+
+  const osName = asString(record.os_name);
+  if (osName) context.os = { name: osName, version: asString(record.os_version) };
+
+  const model = asString(record.device_model);
+  const manufacturer = asString(record.device_manufacturer);
+  if (model || manufacturer) context.device = { model, manufacturer };
+
+  const country = asString(record.country);
+  const region = asString(record.region);
+  const city = asString(record.city);
+  if (country || region || city) context.geo = { country, region, city };
+
+  return context;
+}
+
+function translateRecord(record: JsonObject): AnalyticsEvent {
+  const time = typeof record.time === 'number' ? record.time : undefined;
+  const base = {
+    userId: asString(record.user_id),
+    anonymousId: asString(record.device_id),
+    context: buildContext(record),
+    timestamp: time !== undefined ? new Date(time).toISOString() : undefined,
+    messageId: asString(record.insert_id),
+  };
+
+  if (record.event_type === '$identify') {
+    return { ...base, type: 'identify', traits: toTraits(record.user_properties) };
+  }
+
+  if (record.event_type === '$groupidentify') {
+    const [groupId] = Object.values(isObject(record.groups) ? record.groups : {});
+    return {
+      ...base,
+      type: 'group',
+      groupId: asString(groupId) ?? '',
+      traits: toTraits(record.group_properties),
+    };
+  }
+
+  const properties: JsonObject = { ...(isObject(record.event_properties) ? record.event_properties : {}) };
+  for (const [field, property] of Object.entries(REVENUE_PROPERTIES)) {
+    if (record[field] !== undefined) properties[property] = record[field];
+  }
+  // Amplitude session IDs are the session's start time in ms; -1 means no session
+  if (typeof record.session_id === 'number' && record.session_id > 0) {
+    properties.session_id = record.session_id;
+  }
+
+  const traits = toTraits(record.user_properties);
+  if (Object.keys(traits).length > 0) {
+    base.context.traits = traits;
+  }
+
+  return { ...base, type: 'track', event: record.event_type as string, properties };
+}
+
+/**
+ * Translate the body of an Amplitude /2/httpapi request ({ api_key, events })
+ */
+export function translateAmplitudeBatch(data: unknown): TranslationResult {
+  if (!isObject(data) || !Array.isArray(data.events)) {
+    return { events: [], errors: ['events must be an array'] };
+  }
+
+  const result: TranslationResult = { events: [], errors: [] };
+
+  data.events.forEach((record, i) => {
+    if (!isObject(record)) {
+      result.errors.push(`events[${i}]: must be an object`);
+    } else if (typeof record.event_type !== 'string' || record.event_type === '') {
+      result.errors.push(`events[${i}]: event_type is required`);
+    } else {
+      result.events.push(translateRecord(record));
+    }
+  });
+
+  return result;
+}
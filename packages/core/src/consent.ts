@@ -0,0 +1,190 @@
+/**
+ * Consent policies
+ *
+ * Reads the consent state sent by Segment (context.consent.categoryPreferences)
+ * and RudderStack (context.consentManagement) SDKs and decides whether an
+ * event may be stored as sent, stored without identifiers, or dropped.
+ */
+
+import type { EventContext, FlattenedEvent } from './event-schema.js';
+import type { ValidationResult } from './validation.js';
+
+/**
+ * What to do with an event
+ * - store: keep it unchanged
+ * - anonymize: remove user identifiers, traits and IP before storing
+ * - drop: do not store it
+ */
+export type ConsentAction = 'store' | 'anonymize' | 'drop';
+
+/**
+ * Why an action was chosen
+ * - granted: every required category was granted
+ * - denied: a required category was denied or not granted
+ * - missing: the event carried no consent information
+ */
+export type ConsentReason = 'granted' | 'denied' | 'missing';
+
+export interface ConsentPolicy {
+  /** Categories (or consent IDs) that must all be granted; matched case-insensitively */
+  requiredCategories: string[];
+  /** Action when a required category is not granted */
+  denied: ConsentAction;
+  /** Action when the event has no consent information */
+  missing: ConsentAction;
+}
+
+export interface ConsentState {
+  granted: string[];
+  denied: string[];
+}
+
+export interface ConsentDecision {
+  action: ConsentAction;
+  reason: ConsentReason;
+}
+
+const CONSENT_ACTIONS: ConsentAction[] = ['store', 'anonymize', 'drop'];
+
+/**
+ * Read the consent state from an event's context
+ * Returns null if the event carries no consent information
+ */
+export function readConsent(context: EventContext | null): ConsentState | null {
+  const preferences = context?.consent?.categoryPreferences;
+  const management = context?.consentManagement;
+
+  if (!preferences && !management) {
+    return null;
+  }
+
+  const state: ConsentState = { granted: [], denied: [] };
+
+  // Context comes from the client as-is, so the shapes are not guaranteed
+  if (preferences && typeof preferences === 'object' && !Array.isArray(preferences)) {
+    for (const [category, allowed] of Object.entries(preferences)) {
+      (allowed === true ? state.granted : state.denied).push(category.toLowerCase());
+    }
+  }
+
+  const allowedIds: unknown = management?.allowedConsentIds;
+  const deniedIds: unknown = management?.deniedConsentIds;
+  if (Array.isArray(allowedIds)) {
+    for (const id of allowedIds) {
+      state.granted.push(String(id).toLowerCase());
+    }
+  }
+  if (Array.isArray(deniedIds)) {
+    for (const id of deniedIds) {
+      state.denied.push(String(id).toLowerCase());
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Decide what to do with an event under a consent policy
+ */
+export function evaluateConsent(event: FlattenedEvent, policy: ConsentPolicy): ConsentDecision {
+  const state = readConsent(event.context);
+  if (!state) {
+    return { action: policy.missing, reason: 'missing' };
+  }
+
+  const granted = policy.requiredCategories.every(category => {
+    const name = category.toLowerCase();
+    return state.granted.includes(name) && !state.denied.includes(name);
+  });
+
+  return granted ? { action: 'store', reason: 'granted' } : { action: policy.denied, reason: 'denied' };
+}
+
+/**
+ * Remove everything that identifies a person from an event
+ *
+ * Geo context is reduced to the country, since city, postal code and network
+ * can narrow an event down to a person. Identify and alias events only exist
+ * to carry identifiers, so they cannot
+ * be anonymized; callers should drop them instead (see applyConsentPolicy).
+ */
+export function anonymizeEvent(event: FlattenedEvent): FlattenedEvent {
+  const context = event.context ? { ...event.context } : null;
+
+  if (context) {
+    delete context.ip;
+    delete context.traits;
+    if (context.device) {
+      const { id: _id, advertisingId: _advertisingId, ...device } = context.device as Record<string, unknown>;
+      context.device = device;
+    }
+    if (context.geo) {
+      if (context.geo.country) {
+        context.geo = { country: context.geo.country };
+      } else {
+        delete context.geo;
+      }
+    }
+  }
+
+  return {
+    ...event,
+    user_id: null,
+    anonymous_id: null,
+    previous_id: null,
+    traits: null,
+    context,
+  };
+}
+
+/**
+ * Apply a consent policy to an event
+ * Returns the event to store (possibly anonymized), or null to drop it
+ */
+export function applyConsentPolicy(
+  event: FlattenedEvent,
+  policy: ConsentPolicy
+): { event: FlattenedEvent | null; decision: ConsentDecision } {
+  let decision = evaluateConsent(event, policy);
+
+  if (decision.action === 'anonymize' && (event.type === 'identify' || event.type === 'alias')) {
+    decision = { ...decision, action: 'drop' };
+  }
+
+  switch (decision.action) {
+    case 'store':
+      return { event, decision };
+    case 'anonymize':
+      return { event: anonymizeEvent(event), decision };
+    case 'drop':
+      return { event: null, decision };
+  }
+}
+
+/**
+ * Validate a consent policy (e.g. from configuration or the admin API)
+ */
+export function validateConsentPolicy(policy: unknown): ValidationResult {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return { valid: false, errors: ['Consent policy must be an object'] };
+  }
+
+  const { requiredCategories, denied, missing } = policy as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (
+    !Array.isArray(requiredCategories) ||
+    requiredCategories.length === 0 ||
+    !requiredCategories.every(category => typeof category === 'string' && category !== '')
+  ) {
+    errors.push('requiredCategories must be a non-empty array of strings');
+  }
+  if (!CONSENT_ACTIONS.includes(denied as ConsentAction)) {
+    errors.push(`denied must be one of: ${CONSENT_ACTIONS.join(', ')}`);
+  }
+  if (!CONSENT_ACTIONS.includes(missing as ConsentAction)) {
+    errors.push(`missing must be one of: ${CONSENT_ACTIONS.join(', ')}`);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
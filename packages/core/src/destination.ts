@@ -0,0 +1,79 @@
+/**
+ * Event forwarding to downstream destinations
+ *
+ * Decides which accepted events a destination receives and builds the
+ * request body for each. A destination receives an event when the event's
+ * `integrations` map does not opt out of it and the destination's filter
+ * conditions match the flattened event.
+ */
+
+import type { FlattenedEvent, StoredEvent } from './event-schema.js';
+import { matchesConditions, type TransformCondition } from './transform.js';
+import { readPayloadPath } from './webhook-mapping.js';
+
+/**
+ * What a destination receives
+ */
+export interface DestinationRouting {
+  /** Destination name, as used as a key in `integrations` */
+  name: string;
+  /** Conditions on the flattened event, e.g. `$.event` or `$.properties.plan` */
+  filter?: TransformCondition[] | null;
+}
+
+/**
+ * Whether an event's integrations map lets it go to a destination
+ *
+ * Follows Segment: `{ Name: false }` opts out of one destination,
+ * `{ All: false }` opts out of every destination not explicitly enabled.
+ * Values other than false (e.g. per-integration options) enable it.
+ */
+export function isIntegrationEnabled(integrations: Record<string, unknown> | null | undefined, name: string): boolean {
+  if (!integrations) return true;
+  if (name in integrations) return integrations[name] !== false;
+  return integrations.All !== false;
+}
+
+/**
+ * Whether a destination receives an event
+ */
+export function shouldForward(event: FlattenedEvent, destination: DestinationRouting): boolean {
+  return (
+    isIntegrationEnabled(event.integrations, destination.name) &&
+    matchesConditions(event, destination.filter ?? [])
+  );
+}
+
+/**
+ * Build a request body from a payload template
+ *
+ * Strings starting with `$.` are replaced by the event's value at that path
+ * (e.g. `$.properties.revenue`, `$.context.page.url`, `$.user_id`), and `$`
+ * by the whole event; everything else is copied as is. Missing values are
+ * left out of objects.
+ */
+export function renderPayloadTemplate(template: unknown, event: FlattenedEvent): unknown {
+  if (template === '$') return event;
+  if (typeof template === 'string' && template.startsWith('$.')) return readPayloadPath(event, template);
+
+  if (Array.isArray(template)) {
+    return template.map(item => renderPayloadTemplate(item, event) ?? null);
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(
+      Object.entries(template)
+        .map(([key, value]) => [key, renderPayloadTemplate(value, event)])
+        .filter(([, value]) => value !== undefined)
+    );
+  }
+  return template;
+}
+
+/**
+ * The event as stored, without routing-only fields like `integrations` and
+ * with promoted values as top-level columns
+ */
+export function toStoredEvent(event: FlattenedEvent): StoredEvent {
+  const { integrations: _integrations, promoted, ...stored } = event;
+  return promoted ? { ...stored, ...promoted } : stored;
+}
@@ -17,6 +17,40 @@ export interface LibraryContext {
   version: string;
 }
 
+/**
+ * Location and network details derived from the client IP
+ */
+export interface GeoContext {
+  /** ISO 3166-1 alpha-2 country code */
+  country?: string;
+  region?: string;
+  city?: string;
+  postalCode?: string;
+  /** IANA timezone name */
+  timezone?: string;
+  /** Autonomous system number of the client's network */
+  asn?: number;
+  /** Cloudflare data center that received the request */
+  colo?: string;
+}
+
+/**
+ * Segment consent preferences (context.consent)
+ */
+export interface ConsentContext {
+  /** Consent category names mapped to whether the user granted them */
+  categoryPreferences?: Record<string, boolean>;
+}
+
+/**
+ * RudderStack consent management state (context.consentManagement)
+ */
+export interface ConsentManagementContext {
+  provider?: string;
+  allowedConsentIds?: string[];
+  deniedConsentIds?: string[];
+}
+
 export interface EventContext {
   ip?: string;
   userAgent?: string;
@@ -43,11 +77,31 @@ export interface EventContext {
     name?: string;
     version?: string;
   };
+  browser?: {
+    name?: string;
+    version?: string;
+  };
   screen?: {
     width?: number;
     height?: number;
     density?: number;
   };
+  geo?: GeoContext;
+  consent?: ConsentContext;
+  consentManagement?: ConsentManagementContext;
+  /** Tracking plan violations (set at ingest for sources in warn mode) */
+  trackingPlanViolations?: string[];
+  /** Set at ingest when the event came from a crawler or other automated client */
+  bot?: boolean;
+  /** Set when the event was mapped from an inbound webhook */
+  webhook?: WebhookContext;
+}
+
+export interface WebhookContext {
+  /** Webhook adapter the delivery was posted to, e.g. `stripe` */
+  source?: string;
+  /** Provider's webhook type, e.g. `invoice.paid` */
+  type?: string;
 }
 
 export interface BaseEvent {
@@ -142,12 +196,31 @@ export interface FlattenedEvent {
   type: EventType;
   user_id: string | null;
   anonymous_id: string | null;
+  /** For alias events, the identifier merged into user_id */
+  previous_id: string | null;
+  /** For group events, the group (account) the user belongs to */
+  group_id: string | null;
   event: string | null;
   name: string | null;
   properties: Record<string, unknown> | null;
   traits: Record<string, unknown> | null;
   context: EventContext | null;
+  /** When the event occurred, corrected for client clock skew */
   timestamp: string;
+  /** Timestamp as reported by the client, before correction */
+  original_timestamp: string | null;
   sent_at: string | null;
   received_at: string;
+  /** ID of the registered source whose write key sent the event */
+  source_id: string | null;
+  /** Destination opt-outs from the event; used for forwarding, not stored */
+  integrations?: Record<string, boolean>;
+  /** Typed copies of configured JSON fields; stored as top-level columns */
+  promoted?: Record<string, string | number | boolean | null>;
 }
+
+/**
+ * Event row as written to the pipeline
+ * Routing-only fields are dropped and promoted values become columns.
+ */
+export type StoredEvent = Omit<FlattenedEvent, 'integrations' | 'promoted'> & Record<string, unknown>;
@@ -0,0 +1,146 @@
+/**
+ * GA4 Measurement Protocol compatibility
+ *
+ * Translates the body of a GA4 `/mp/collect` request into analytics events,
+ * so servers that call the Measurement Protocol can send to the ingestion
+ * worker unchanged.
+ * https://developers.google.com/analytics/devguides/collection/protocol/ga4/reference
+ */
+
+import type { AnalyticsEvent, EventContext } from './event-schema.js';
+import type { TranslationResult } from './mixpanel.js';
+
+type JsonObject = Record<string, unknown>;
+
+/** page_view parameters moved into context.page */
+const PAGE_PARAMS = new Set(['page_location', 'page_referrer', 'page_title']);
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : typeof value === 'number' ? String(value) : undefined;
+}
+
+function fromMicros(value: unknown): string | undefined {
+  const micros = typeof value === 'string' ? Number(value) : value;
+  return typeof micros === 'number' && Number.isFinite(micros) ? new Date(micros / 1000).toISOString() : undefined;
+}
+
+/**
+ * Read user_properties, which GA4 wraps as `{ name: { value } }`
+ */
+function toTraits(value: unknown): JsonObject {
+  if (!isObject(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, property]) => isObject(property) && property.value !== undefined)
+      .map(([name, property]) => [name, (property as JsonObject).value])
+  );
+}
+
+function buildContext(data: JsonObject): EventContext {
+  const context: EventContext = {};
+
+  const ip = asString(data.ip_override);
+  if (ip) context.ip = ip;
+
+  const traits = toTraits(data.user_properties);
+  if (Object.keys(traits).length > 0) context.traits = traits;
+
+  // GA4 consent signals: { ad_user_data: 'GRANTED' | 'DENIED', ad_personalization: ... }
+  if (isObject(data.consent)) {
+    context.consent = {
+      categoryPreferences: Object.fromEntries(
+        Object.entries(data.consent).map(([category, state]) => [category, state === 'GRANTED'])
+      ),
+    };
+  }
+
+  const device = isObject(data.device) ? data.device : {};
+  const locale = asString(device.language);
+  if (locale) context.locale = locale;
+
+  const osName = asString(device.operating_system);
+  if (osName) context.os = { name: osName, version: asString(device.operating_system_version) };
+
+  const browser = asString(device.browser);
+  if (browser) context.browser = { name: browser, version: asString(device.browser_version) };
+
+  const type = asString(device.category);
+  const model = asString(device.model);
+  const manufacturer = asString(device.brand);
+  if (type || model || manufacturer) context.device = { type, model, manufacturer };
+
+  return context;
+}
+
+function pathFromUrl(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Translate the body of a GA4 Measurement Protocol request
+ *
+ * `client_id` becomes `anonymousId` and `user_id` becomes `userId`.
+ * `page_view` becomes a page event with `context.page` filled from
+ * `page_location`, `page_referrer` and `page_title`; other events become
+ * track events with their params as properties.
+ */
+export function translateGa4Payload(data: unknown): TranslationResult {
+  if (!isObject(data) || !Array.isArray(data.events)) {
+    return { events: [], errors: ['events must be an array'] };
+  }
+
+  const ids = {
+    userId: asString(data.user_id),
+    anonymousId: asString(data.client_id),
+  };
+  const context = buildContext(data);
+  const result: TranslationResult = { events: [], errors: [] };
+
+  data.events.forEach((record, i) => {
+    if (!isObject(record) || typeof record.name !== 'string' || record.name === '') {
+      result.errors.push(`events[${i}]: name is required`);
+      return;
+    }
+
+    const params = isObject(record.params) ? record.params : {};
+    const timestamp = fromMicros(record.timestamp_micros ?? data.timestamp_micros);
+
+    if (record.name === 'page_view') {
+      const url = asString(params.page_location);
+      const title = asString(params.page_title);
+      const event: AnalyticsEvent = {
+        ...ids,
+        type: 'page',
+        name: title,
+        properties: Object.fromEntries(Object.entries(params).filter(([key]) => !PAGE_PARAMS.has(key))),
+        context: {
+          ...context,
+          page: { url, path: pathFromUrl(url), referrer: asString(params.page_referrer), title },
+        },
+        timestamp,
+      };
+      result.events.push(event);
+      return;
+    }
+
+    result.events.push({
+      ...ids,
+      type: 'track',
+      event: record.name,
+      properties: { ...params },
+      context: { ...context },
+      timestamp,
+    });
+  });
+
+  return result;
+}
@@ -2,6 +2,10 @@
 export type {
   EventType,
   EventContext,
+  GeoContext,
+  WebhookContext,
+  ConsentContext,
+  ConsentManagementContext,
   PageContext,
   LibraryContext,
   BaseEvent,
@@ -14,6 +18,7 @@ export type {
   AnalyticsEvent,
   AnalyticsBatch,
   FlattenedEvent,
+  StoredEvent,
 } from './event-schema.js';
 
 // Validation utilities
@@ -25,7 +30,94 @@ export {
   flattenEvent,
   flattenBatch,
 } from './validation.js';
-export type { ValidationResult } from './validation.js';
+export type { ValidationResult, ValidateOptions, FlattenOptions } from './validation.js';
+
+// Timestamps
+export { correctClockSkew, applyTimestampPolicy } from './timestamp.js';
+export type {
+  TimestampPolicy,
+  TimestampPolicyAction,
+  TimestampCheckResult,
+} from './timestamp.js';
+
+// User-agent parsing
+export { parseUserAgent, enrichUserAgent, isBotUserAgent } from './user-agent.js';
+export type { ParsedUserAgent, DeviceType } from './user-agent.js';
+
+// Tracking plans
+export { validateJsonSchema } from './json-schema.js';
+export type { JsonSchema, JsonSchemaType } from './json-schema.js';
+export { checkTrackingPlan } from './tracking-plan.js';
+export type { TrackingPlan, TrackingPlanMode } from './tracking-plan.js';
+
+// PII redaction
+export {
+  validateRedactionRules,
+  applyRedactionRules,
+  truncateIp,
+  REDACTED_VALUE,
+} from './redaction.js';
+export type { RedactionRule, RedactionAction, RedactionOptions } from './redaction.js';
+
+// Promoted columns
+export {
+  extractPromotedColumns,
+  parsePromotedColumns,
+  promoteColumns,
+  validatePromotedColumns,
+} from './promoted-columns.js';
+export type { PromotedColumn, PromotedColumnType, PromotedColumnsConfig, PromotedValue } from './promoted-columns.js';
+
+// Transformation rules
+export {
+  applyTransformRules,
+  matchesConditions,
+  validateConditions,
+  validateTransformRule,
+  validateTransformRules,
+} from './transform.js';
+export type {
+  TransformRule,
+  TransformAction,
+  TransformCondition,
+  TransformCastType,
+  TransformResult,
+} from './transform.js';
+
+// Destinations
+export { isIntegrationEnabled, shouldForward, renderPayloadTemplate, toStoredEvent } from './destination.js';
+export type { DestinationRouting } from './destination.js';
+
+// Consent
+export {
+  readConsent,
+  evaluateConsent,
+  anonymizeEvent,
+  applyConsentPolicy,
+  validateConsentPolicy,
+} from './consent.js';
+export type {
+  ConsentAction,
+  ConsentReason,
+  ConsentPolicy,
+  ConsentState,
+  ConsentDecision,
+} from './consent.js';
+
+// Webhook mappings
+export { mapWebhookPayload, readPayloadPath, validateWebhookMapping } from './webhook-mapping.js';
+export type {
+  WebhookMapping,
+  WebhookEventMapping,
+  WebhookValue,
+  WebhookTransform,
+} from './webhook-mapping.js';
+
+// Mixpanel, Amplitude and GA4 compatibility
+export { translateMixpanelTrack, translateMixpanelEngage } from './mixpanel.js';
+export type { TranslationResult } from './mixpanel.js';
+export { translateAmplitudeBatch } from './amplitude.js';
+export { translateGa4Payload } from './ga4.js';
 
 // Configuration types
 export type {
@@ -0,0 +1,243 @@
+/**
+ * Mixpanel ingestion API compatibility
+ *
+ * Translates Mixpanel `/track` events and `/engage` profile updates into
+ * analytics events, so legacy Mixpanel clients can send to the ingestion
+ * worker unchanged. https://developer.mixpanel.com/reference/ingestion-api
+ */
+
+import type { AnalyticsEvent, EventContext } from './event-schema.js';
+
+export interface TranslationResult {
+  events: AnalyticsEvent[];
+  /** Input records that could not be translated, e.g. `event[2]: must be an object` */
+  errors: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** Mixpanel properties moved into the event's context (or dropped, like `token`) */
+const CONTEXT_PROPERTIES = new Set([
+  'token',
+  'distinct_id',
+  'time',
+  'ip',
+  'mp_lib',
+  '$lib_version',
+  '$insert_id',
+  '$user_id',
+  '$device_id',
+  '$current_url',
+  '$referrer',
+  '$os',
+  '$browser',
+  '$browser_version',
+  '$device',
+  '$screen_width',
+  '$screen_height',
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+]);
+
+/** Mixpanel reserved profile properties and their Segment trait names */
+const PROFILE_TRAITS: Record<string, string> = {
+  $email: 'email',
+  $name: 'name',
+  $first_name: 'firstName',
+  $last_name: 'lastName',
+  $phone: 'phone',
+  $avatar: 'avatar',
+  $created: 'createdAt',
+};
+
+const DEVICE_PREFIX = '$device:';
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : typeof value === 'number' ? String(value) : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Mixpanel times are Unix seconds, or milliseconds in newer clients
+ */
+function toTimestamp(value: unknown): string | undefined {
+  const time = asNumber(value);
+  if (time === undefined) return undefined;
+  return new Date(time > 1e11 ? time : time * 1000).toISOString();
+}
+
+/**
+ * Split a distinct_id into user and anonymous IDs
+ *
+ * With simplified ID merge, $user_id and $device_id say which is which.
+ * Otherwise a `$device:` prefix (or equality with $device_id) marks an
+ * anonymous ID and anything else is taken to be a user ID.
+ */
+function resolveIds(distinctId: unknown, userId: unknown, deviceId: unknown): { userId?: string; anonymousId?: string } {
+  const distinct = asString(distinctId);
+  const device = asString(deviceId);
+  const ids: { userId?: string; anonymousId?: string } = {};
+
+  const user = asString(userId);
+  if (user) {
+    ids.userId = user;
+  } else if (distinct && !distinct.startsWith(DEVICE_PREFIX) && distinct !== device) {
+    ids.userId = distinct;
+  }
+
+  if (device) {
+    ids.anonymousId = device;
+  } else if (distinct?.startsWith(DEVICE_PREFIX)) {
+    ids.anonymousId = distinct.slice(DEVICE_PREFIX.length);
+  } else if (distinct && !ids.userId) {
+    ids.anonymousId = distinct;
+  }
+
+  return ids;
+}
+
+function buildContext(properties: JsonObject): EventContext {
+  const context: EventContext = {};
+
+  const ip = asString(properties.ip);
+  if (ip) context.ip = ip;
+
+  const library = asString(properties.mp_lib);
+  if (library) context.library = { name: library, version: asString(properties.$lib_version) ?? '' };
+
+  const url = asString(properties.$current_url);
+  const referrer = asString(properties.$referrer);
+  if (url || referrer) context.page = { url, referrer };
+
+  const os = asString(properties.$os);
+  if (os) context.os = { name: os };
+
+  const browser = asString(properties.$browser);
+  if (browser) context.browser = { name: browser, version: asString(properties.$browser_version) };
+
+  const device = asString(properties.$device);
+  if (device) context.device = { model: device };
+
+  const width = asNumber(properties.$screen_width);
+  const height = asNumber(properties.$screen_height);
+  if (width !== undefined || height !== undefined) context.screen = { width, height };
+
+  const campaign = {
+    source: asString(properties.utm_source),
+    medium: asString(properties.utm_medium),
+    name: asString(properties.utm_campaign),
+    term: asString(properties.utm_term),
+    content: asString(properties.utm_content),
+  };
+  if (Object.values(campaign).some(value => value !== undefined)) context.campaign = campaign;
+
+  return context;
+}
+
+function toArray(data: unknown): unknown[] {
+  return Array.isArray(data) ? data : [data];
+}
+
+function translateTrackRecord(record: JsonObject): AnalyticsEvent {
+  const properties = isObject(record.properties) ? record.properties : {};
+  const custom = Object.fromEntries(Object.entries(properties).filter(([key]) => !CONTEXT_PROPERTIES.has(key)));
+  const ids = resolveIds(properties.distinct_id, properties.$user_id, properties.$device_id);
+  const base = {
+    ...ids,
+    context: buildContext(properties),
+    timestamp: toTimestamp(properties.time),
+    messageId: asString(properties.$insert_id),
+  };
+
+  switch (record.event) {
+    // Sent by mixpanel.identify() when an anonymous user logs in
+    case '$identify':
+      return {
+        ...base,
+        type: 'identify',
+        userId: asString(properties.$identified_id) ?? ids.userId,
+        anonymousId: asString(properties.$anon_distinct_id) ?? ids.anonymousId,
+      };
+    // Sent by mixpanel.alias(alias, original)
+    case '$create_alias':
+      return {
+        ...base,
+        type: 'alias',
+        userId: asString(properties.alias),
+        previousId: asString(properties.distinct_id) ?? '',
+      };
+    case '$mp_web_page_view':
+      return { ...base, type: 'page', properties: custom };
+    default:
+      return { ...base, type: 'track', event: record.event as string, properties: custom };
+  }
+}
+
+/**
+ * Translate the body of a Mixpanel /track request (one event or an array)
+ */
+export function translateMixpanelTrack(data: unknown): TranslationResult {
+  const result: TranslationResult = { events: [], errors: [] };
+
+  toArray(data).forEach((record, i) => {
+    if (!isObject(record)) {
+      result.errors.push(`event[${i}]: must be an object`);
+    } else if (typeof record.event !== 'string' || record.event === '') {
+      result.errors.push(`event[${i}]: event name is required`);
+    } else {
+      result.events.push(translateTrackRecord(record));
+    }
+  });
+
+  return result;
+}
+
+function toTraits(values: unknown): JsonObject {
+  if (!isObject(values)) return {};
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [PROFILE_TRAITS[key] ?? key, value]));
+}
+
+/**
+ * Translate the body of a Mixpanel /engage request (one update or an array)
+ *
+ * `$set` and `$set_once` updates become identify events (`$set` wins where
+ * both name a property). Other operations (`$add`, `$append`, `$unset`, ...)
+ * cannot be expressed as traits and are skipped.
+ */
+export function translateMixpanelEngage(data: unknown): TranslationResult {
+  const result: TranslationResult = { events: [], errors: [] };
+
+  toArray(data).forEach((record, i) => {
+    if (!isObject(record)) {
+      result.errors.push(`update[${i}]: must be an object`);
+      return;
+    }
+    if (!isObject(record.$set) && !isObject(record.$set_once)) {
+      return;
+    }
+
+    const context: EventContext = {};
+    const ip = asString(record.$ip);
+    if (ip && ip !== '0') context.ip = ip;
+
+    result.events.push({
+      type: 'identify',
+      ...resolveIds(record.$distinct_id, record.$user_id, record.$device_id),
+      traits: { ...toTraits(record.$set_once), ...toTraits(record.$set) },
+      context,
+      timestamp: toTimestamp(record.$time),
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,165 @@
+/**
+ * Promoted columns
+ *
+ * Most event data is stored as JSON text in the properties, traits and
+ * context columns, so queries must extract it at query time. Fields listed in
+ * the PROMOTED_COLUMNS variable of both workers are also written as typed
+ * top-level columns, which query engines can read directly and prune with
+ * Iceberg column statistics. Nothing is promoted unless configured.
+ *
+ * Each promoted column must also be in the pipeline stream's schema, which
+ * cannot change after the stream is created.
+ */
+
+import type { FlattenedEvent } from './event-schema.js';
+import type { ValidationResult } from './validation.js';
+
+/**
+ * Pipeline schema types a promoted column can have
+ */
+export type PromotedColumnType = 'string' | 'float64' | 'int64' | 'bool';
+
+export interface PromotedColumn {
+  /** Column name (snake_case, must not clash with a built-in column) */
+  name: string;
+  type: PromotedColumnType;
+  /** Source field, e.g. `$.properties.revenue` or `$.context.page.path` */
+  path: string;
+}
+
+export type PromotedValue = string | number | boolean | null;
+
+export type PromotedColumnsConfig =
+  | { success: true; columns: PromotedColumn[] }
+  | { success: false; message: string };
+
+const PROMOTED_TYPES: PromotedColumnType[] = ['string', 'float64', 'int64', 'bool'];
+const SOURCE_ROOTS = ['properties', 'traits', 'context'];
+const BUILT_IN_COLUMNS = [
+  'message_id',
+  'type',
+  'user_id',
+  'anonymous_id',
+  'previous_id',
+  'group_id',
+  'event',
+  'name',
+  'properties',
+  'traits',
+  'context',
+  'timestamp',
+  'original_timestamp',
+  'sent_at',
+  'received_at',
+  'source_id',
+];
+
+function readPath(event: FlattenedEvent, path: string): unknown {
+  let current: unknown = event;
+  for (const segment of path.slice(2).split('.')) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Convert a JSON value to a column's type
+ * Values that do not fit the type are stored as null.
+ */
+function toColumnValue(value: unknown, type: PromotedColumnType): PromotedValue {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? value : typeof value === 'number' || typeof value === 'boolean' ? String(value) : null;
+    case 'float64':
+    case 'int64': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return null;
+      return type === 'int64' && !Number.isInteger(number) ? null : number;
+    }
+    case 'bool':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' ? true : value === 'false' ? false : null;
+  }
+}
+
+/**
+ * Read the promoted column values of a flattened event
+ */
+export function extractPromotedColumns(
+  event: FlattenedEvent,
+  columns: PromotedColumn[]
+): Record<string, PromotedValue> {
+  return Object.fromEntries(columns.map(column => [column.name, toColumnValue(readPath(event, column.path), column.type)]));
+}
+
+/**
+ * Set an event's promoted columns from its current JSON fields
+ * Run again after anything rewrites the JSON (e.g. redaction), so a column
+ * never keeps a value that was removed from the JSON.
+ */
+export function promoteColumns(event: FlattenedEvent, columns: PromotedColumn[]): FlattenedEvent {
+  return columns.length === 0 ? event : { ...event, promoted: extractPromotedColumns(event, columns) };
+}
+
+/**
+ * Validate a promoted column list
+ */
+export function validatePromotedColumns(columns: unknown): ValidationResult {
+  if (!Array.isArray(columns)) {
+    return { valid: false, errors: ['Promoted columns must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  columns.forEach((column, i) => {
+    const { name, type, path } = (column ?? {}) as Partial<PromotedColumn>;
+    const segments = typeof path === 'string' && path.startsWith('$.') ? path.slice(2).split('.') : [];
+
+    if (typeof name !== 'string' || !/^[a-z][a-z0-9_]*$/.test(name)) {
+      errors.push(`Column ${i}: name must be snake_case`);
+    } else if (BUILT_IN_COLUMNS.includes(name) || names.has(name)) {
+      errors.push(`Column ${i}: ${name} is already a column`);
+    } else {
+      names.add(name);
+    }
+    if (!PROMOTED_TYPES.includes(type as PromotedColumnType)) {
+      errors.push(`Column ${i}: type must be one of: ${PROMOTED_TYPES.join(', ')}`);
+    }
+    if (segments.length < 2 || !SOURCE_ROOTS.includes(segments[0]) || segments.includes('')) {
+      errors.push(`Column ${i}: path must look like $.properties.<field>, $.traits.<field> or $.context.<field>`);
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+let cached: { raw: string; config: PromotedColumnsConfig } | undefined;
+
+/**
+ * Parse a PROMOTED_COLUMNS variable (a JSON array of promoted columns)
+ * An unset or empty variable promotes nothing. Parsed once per isolate.
+ */
+export function parsePromotedColumns(raw: string | undefined): PromotedColumnsConfig {
+  if (!raw?.trim()) {
+    return { success: true, columns: [] };
+  }
+  if (cached?.raw === raw) {
+    return cached.config;
+  }
+
+  let config: PromotedColumnsConfig;
+  try {
+    const columns: unknown = JSON.parse(raw);
+    const validation = validatePromotedColumns(columns);
+    config = validation.valid
+      ? { success: true, columns: columns as PromotedColumn[] }
+      : { success: false, message: validation.errors.join('; ') };
+  } catch {
+    config = { success: false, message: 'PROMOTED_COLUMNS is not valid JSON' };
+  }
+
+  cached = { raw, config };
+  return config;
+}
@@ -0,0 +1,219 @@
+/**
+ * Declarative PII redaction rules
+ *
+ * Rules target a path inside an event's properties, traits or context,
+ * e.g. `$.traits.email` or `$.context.ip`. A `*` segment matches every key of
+ * an object (or every item of an array) at that level.
+ */
+
+import type { FlattenedEvent } from './event-schema.js';
+import type { ValidationResult } from './validation.js';
+
+/**
+ * What to do with a matched value
+ * - hash: replace with a salted SHA-256 hex digest
+ * - truncate_ip: zero the host part of an IP address (IPv4 to /24, IPv6 to /48)
+ * - mask: replace with REDACTED_VALUE
+ * - drop: remove the field entirely
+ */
+export type RedactionAction = 'hash' | 'truncate_ip' | 'mask' | 'drop';
+
+export interface RedactionRule {
+  path: string;
+  action: RedactionAction;
+}
+
+export interface RedactionOptions {
+  /** Salt prepended to values before hashing (required by hash rules) */
+  salt?: string;
+}
+
+export const REDACTED_VALUE = '[REDACTED]';
+
+const REDACTION_ACTIONS: RedactionAction[] = ['hash', 'truncate_ip', 'mask', 'drop'];
+const REDACTION_ROOTS = ['properties', 'traits', 'context'] as const;
+
+type RedactionRoot = (typeof REDACTION_ROOTS)[number];
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Split a rule path into its root field and the segments below it
+ * Returns null if the path is malformed or outside properties/traits/context
+ */
+function parsePath(path: string): { root: RedactionRoot; segments: string[] } | null {
+  if (!path.startsWith('$.')) return null;
+
+  const [root, ...segments] = path.slice(2).split('.');
+  if (!REDACTION_ROOTS.includes(root as RedactionRoot)) return null;
+  if (segments.length === 0 || segments.some(segment => segment === '')) return null;
+
+  return { root: root as RedactionRoot, segments };
+}
+
+/**
+ * Validate a list of redaction rules (e.g. parsed from configuration)
+ */
+export function validateRedactionRules(rules: unknown): ValidationResult {
+  if (!Array.isArray(rules)) {
+    return { valid: false, errors: ['Redaction rules must be an array'] };
+  }
+
+  const errors: string[] = [];
+
+  rules.forEach((rule, i) => {
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`Rule ${i}: must be an object`);
+      return;
+    }
+
+    const { path, action } = rule as Record<string, unknown>;
+    if (typeof path !== 'string' || !parsePath(path)) {
+      errors.push(`Rule ${i}: path must look like $.properties.<field>, $.traits.<field> or $.context.<field>`);
+    }
+    if (!REDACTION_ACTIONS.includes(action as RedactionAction)) {
+      errors.push(`Rule ${i}: action must be one of: ${REDACTION_ACTIONS.join(', ')}`);
+    }
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Collect every [container, key] pair matched by the remaining path segments
+ */
+function findMatches(value: unknown, segments: string[], matches: Array<[Container, string | number]>): void {
+  if (!value || typeof value !== 'object') return;
+
+  const [segment, ...rest] = segments;
+  const container = value as Container;
+  const keys: Array<string | number> =
+    segment === '*'
+      ? Array.isArray(container) ? container.map((_, i) => i) : Object.keys(container)
+      : [segment];
+
+  for (const key of keys) {
+    const child = (container as Record<string | number, unknown>)[key];
+    if (child === undefined) continue;
+
+    if (rest.length === 0) {
+      matches.push([container, key]);
+    } else {
+      findMatches(child, rest, matches);
+    }
+  }
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Expand an IPv6 address into its eight hextets
+ * Returns null if the value is not a valid IPv6 address
+ */
+function expandIpv6(ip: string): string[] | null {
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const hextets = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  return hextets.every(hextet => /^[0-9a-f]{1,4}$/i.test(hextet)) ? hextets : null;
+}
+
+/**
+ * Truncate an IP address to its network prefix: IPv4 to /24, IPv6 to /48
+ * Returns null if the value is not an IP address
+ */
+export function truncateIp(ip: string): string | null {
+  const ipv4 = ip.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const octets = ipv4.slice(1).map(Number);
+    return octets.every(octet => octet <= 255) ? `${octets[0]}.${octets[1]}.${octets[2]}.0` : null;
+  }
+
+  const hextets = expandIpv6(ip);
+  if (hextets) {
+    return `${hextets.slice(0, 3).map(hextet => hextet.toLowerCase().replace(/^0+(?=.)/, '')).join(':')}::`;
+  }
+
+  return null;
+}
+
+/**
+ * Apply redaction rules to an event's properties, traits and context
+ *
+ * Returns a new event; the input is not modified. Hash rules throw if no salt
+ * is configured, so misconfiguration never lets raw values through. Values
+ * that a truncate_ip rule cannot parse as an IP address are dropped.
+ */
+export async function applyRedactionRules(
+  event: FlattenedEvent,
+  rules: RedactionRule[],
+  options: RedactionOptions = {}
+): Promise<FlattenedEvent> {
+  if (rules.length === 0) return event;
+
+  const redacted: FlattenedEvent = { ...event };
+
+  for (const rule of rules) {
+    const path = parsePath(rule.path);
+    if (!path || !redacted[path.root]) continue;
+
+    const matches: Array<[Container, string | number]> = [];
+    findMatches(redacted[path.root], path.segments, matches);
+    if (matches.length === 0) continue;
+
+    // Copy the root object on first write so the input event stays untouched
+    if (redacted[path.root] === event[path.root]) {
+      redacted[path.root] = structuredClone(event[path.root]) as never;
+      matches.length = 0;
+      findMatches(redacted[path.root], path.segments, matches);
+    }
+
+    for (const [container, key] of matches) {
+      const record = container as Record<string | number, unknown>;
+      const value = record[key];
+
+      switch (rule.action) {
+        case 'hash': {
+          if (!options.salt) {
+            throw new Error(`Redaction rule for ${rule.path} requires a hashing salt`);
+          }
+          if (value === null) break;
+          const raw = typeof value === 'string' ? value : JSON.stringify(value);
+          record[key] = await sha256Hex(options.salt + raw);
+          break;
+        }
+        case 'truncate_ip': {
+          const truncated = typeof value === 'string' ? truncateIp(value) : null;
+          if (truncated) {
+            record[key] = truncated;
+          } else if (Array.isArray(container)) {
+            container[key as number] = null;
+          } else {
+            delete record[key];
+          }
+          break;
+        }
+        case 'mask':
+          record[key] = REDACTED_VALUE;
+          break;
+        case 'drop':
+          if (Array.isArray(container)) {
+            container[key as number] = null;
+          } else {
+            delete record[key];
+          }
+          break;
+      }
+    }
+  }
+
+  return redacted;
+}
@@ -0,0 +1,62 @@
+/**
+ * Event timestamp handling: clock-skew correction and sanity limits
+ */
+
+import type { FlattenedEvent } from './event-schema.js';
+
+/**
+ * What to do with an event whose timestamp is outside the allowed range
+ * - reject: drop the event with an error
+ * - clamp: replace the timestamp with received_at (original_timestamp keeps the client value)
+ * - accept: keep the event unchanged
+ */
+export type TimestampPolicyAction = 'reject' | 'clamp' | 'accept';
+
+export interface TimestampPolicy {
+  action: TimestampPolicyAction;
+  /** How far past received_at a timestamp may be */
+  maxFutureSeconds: number;
+  /** How far before received_at a timestamp may be (null for no limit, e.g. imports) */
+  maxAgeSeconds: number | null;
+}
+
+export interface TimestampCheckResult {
+  /** The event (clamped if needed), or null if it was rejected */
+  event: FlattenedEvent | null;
+  error?: string;
+}
+
+/**
+ * Correct a client timestamp for device clock skew (Segment-style)
+ *
+ * The client clock's offset is measured as sentAt - receivedAt, both of which
+ * describe (almost) the same instant, and removed from the timestamp.
+ */
+export function correctClockSkew(timestamp: string, sentAt: string, receivedAt: string): string {
+  const skew = Date.parse(sentAt) - Date.parse(receivedAt);
+  return new Date(Date.parse(timestamp) - skew).toISOString();
+}
+
+/**
+ * Check an event's timestamp against a policy
+ */
+export function applyTimestampPolicy(event: FlattenedEvent, policy: TimestampPolicy): TimestampCheckResult {
+  const offsetMs = Date.parse(event.timestamp) - Date.parse(event.received_at);
+
+  let error: string | undefined;
+  if (offsetMs > policy.maxFutureSeconds * 1000) {
+    error = `Timestamp ${event.timestamp} is more than ${policy.maxFutureSeconds}s in the future`;
+  } else if (policy.maxAgeSeconds !== null && -offsetMs > policy.maxAgeSeconds * 1000) {
+    error = `Timestamp ${event.timestamp} is more than ${policy.maxAgeSeconds}s in the past`;
+  }
+
+  if (!error || policy.action === 'accept') {
+    return { event };
+  }
+
+  if (policy.action === 'clamp') {
+    return { event: { ...event, timestamp: event.received_at } };
+  }
+
+  return { event: null, error };
+}
@@ -0,0 +1,56 @@
+/**
+ * Tracking plan checks
+ *
+ * A tracking plan lists the allowed track event names with a JSON Schema for
+ * each event's properties, plus optional schemas for identify and group traits.
+ */
+
+import type { FlattenedEvent } from './event-schema.js';
+import { validateJsonSchema, type JsonSchema } from './json-schema.js';
+
+/**
+ * How a source handles tracking plan violations
+ * - allow: do not check events
+ * - warn: keep events, tagging them with context.trackingPlanViolations
+ * - block: drop events that violate the plan
+ */
+export type TrackingPlanMode = 'allow' | 'warn' | 'block';
+
+export interface TrackingPlan {
+  /** Allowed track event names mapped to the schema for their properties */
+  events: Record<string, JsonSchema>;
+  /** Schema for identify traits */
+  identifyTraits?: JsonSchema;
+  /** Schema for group traits */
+  groupTraits?: JsonSchema;
+}
+
+/**
+ * Check an event against a tracking plan
+ * Returns a list of violations (empty if the event conforms)
+ *
+ * Track events are only restricted to planned names once the plan contains
+ * at least one event, so an empty plan accepts everything.
+ */
+export function checkTrackingPlan(event: FlattenedEvent, plan: TrackingPlan): string[] {
+  switch (event.type) {
+    case 'track': {
+      const name = event.event ?? '';
+      const schema = plan.events[name];
+      if (!schema) {
+        return Object.keys(plan.events).length > 0 ? [`Unplanned event: "${name}"`] : [];
+      }
+      return validateJsonSchema(event.properties ?? {}, schema, '$.properties');
+    }
+    case 'identify':
+      return plan.identifyTraits
+        ? validateJsonSchema(event.traits ?? {}, plan.identifyTraits, '$.traits')
+        : [];
+    case 'group':
+      return plan.groupTraits
+        ? validateJsonSchema(event.traits ?? {}, plan.groupTraits, '$.traits')
+        : [];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Declarative event transformation rules
+ *
+ * An ordered list of rules fixes events centrally instead of in every app:
+ * renaming events, copying, moving, deleting and casting fields, setting
+ * defaults, and dropping events. Rules run on validated events, before they
+ * are flattened.
+ *
+ * Rules target fields inside properties, traits or context, e.g.
+ * `$.properties.price` or `$.context.page.url`. Conditions (`when`) may also
+ * test top-level fields such as `$.type`, `$.event` or `$.userId`.
+ */
+
+import type { AnalyticsEvent } from './event-schema.js';
+import type { ValidationResult } from './validation.js';
+
+export type TransformCastType = 'string' | 'number' | 'boolean';
+
+/**
+ * A test on one field; all given tests must pass
+ */
+export interface TransformCondition {
+  path: string;
+  /** The field equals this value */
+  equals?: unknown;
+  /** The field equals one of these values */
+  in?: unknown[];
+  /** The field is present (true) or absent (false) */
+  exists?: boolean;
+}
+
+interface TransformRuleBase {
+  /** Apply the rule only to events matching every condition */
+  when?: TransformCondition[];
+}
+
+/**
+ * One transformation
+ * - rename_event: rename track events called `from` to `to`
+ * - copy / move: copy or move the value at `from` to `to`
+ * - delete: remove the field at `path`
+ * - cast: convert the value at `path` to a string, number or boolean
+ * - set_default: set `path` to `value` when it is missing or null
+ * - drop: discard the event (requires `when`)
+ */
+export type TransformRule = TransformRuleBase &
+  (
+    | { action: 'rename_event'; from: string; to: string }
+    | { action: 'copy' | 'move'; from: string; to: string }
+    | { action: 'delete'; path: string }
+    | { action: 'cast'; path: string; to: TransformCastType }
+    | { action: 'set_default'; path: string; value: unknown }
+    | { action: 'drop' }
+  );
+
+export type TransformAction = TransformRule['action'];
+
+export interface TransformResult {
+  /** The transformed event, or null if a rule dropped it */
+  event: AnalyticsEvent | null;
+  /** Indexes of the rules that changed the event */
+  applied: number[];
+}
+
+const TRANSFORM_ACTIONS: TransformAction[] = ['rename_event', 'copy', 'move', 'delete', 'cast', 'set_default', 'drop'];
+const CAST_TYPES: TransformCastType[] = ['string', 'number', 'boolean'];
+const TARGET_ROOTS = ['properties', 'traits', 'context'];
+
+type Container = Record<string, unknown>;
+
+function isObject(value: unknown): value is Container {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toSegments(path: string): string[] | null {
+  if (!path.startsWith('$.')) return null;
+  const segments = path.slice(2).split('.');
+  return segments.some(segment => segment === '') ? null : segments;
+}
+
+/**
+ * Whether a path can be written by a rule (inside properties, traits or context)
+ */
+function isTargetPath(path: unknown): path is string {
+  if (typeof path !== 'string') return false;
+  const segments = toSegments(path);
+  return !!segments && segments.length >= 2 && TARGET_ROOTS.includes(segments[0]);
+}
+
+function isConditionPath(path: unknown): path is string {
+  return typeof path === 'string' && toSegments(path) !== null;
+}
+
+function getValue(event: Container, path: string): unknown {
+  let current: unknown = event;
+  for (const segment of toSegments(path) ?? []) {
+    if (!isObject(current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Set a value, creating missing parent objects
+ * Returns false if a parent exists but is not an object
+ */
+function setValue(event: Container, path: string, value: unknown): boolean {
+  const segments = toSegments(path)!;
+  let current = event;
+
+  for (const segment of segments.slice(0, -1)) {
+    if (current[segment] === undefined || current[segment] === null) {
+      current[segment] = {};
+    }
+    if (!isObject(current[segment])) return false;
+    current = current[segment] as Container;
+  }
+
+  current[segments[segments.length - 1]] = value;
+  return true;
+}
+
+function deleteValue(event: Container, path: string): boolean {
+  const segments = toSegments(path)!;
+  const parent = segments.length > 1 ? getValue(event, `$.${segments.slice(0, -1).join('.')}`) : event;
+  const key = segments[segments.length - 1];
+
+  if (!isObject(parent) || !(key in parent)) return false;
+  delete parent[key];
+  return true;
+}
+
+/**
+ * Convert a value, returning undefined if it cannot be converted
+ */
+function castValue(value: unknown, type: TransformCastType): unknown {
+  switch (type) {
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'number': {
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === '1' || value === 1) return true;
+      if (value === 'false' || value === '0' || value === 0) return false;
+      return undefined;
+  }
+}
+
+function matchesCondition(event: Container, condition: TransformCondition): boolean {
+  const value = getValue(event, condition.path);
+
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) return false;
+  if (condition.equals !== undefined && value !== condition.equals) return false;
+  if (condition.in !== undefined && !condition.in.includes(value)) return false;
+
+  return true;
+}
+
+/**
+ * Whether an event (raw or flattened) matches every condition
+ */
+export function matchesConditions(event: object, conditions: TransformCondition[]): boolean {
+  return conditions.every(condition => matchesCondition(event as Container, condition));
+}
+
+/**
+ * Validate a list of conditions, returning its errors
+ */
+export function validateConditions(conditions: unknown): string[] {
+  if (!Array.isArray(conditions)) {
+    return ['when must be an array of conditions'];
+  }
+
+  const errors: string[] = [];
+  conditions.forEach((condition, i) => {
+    if (!isObject(condition) || !isConditionPath(condition.path)) {
+      errors.push(`when[${i}].path must look like $.field or $.field.subfield`);
+    } else if (condition.in !== undefined && !Array.isArray(condition.in)) {
+      errors.push(`when[${i}].in must be an array`);
+    } else if (condition.exists !== undefined && typeof condition.exists !== 'boolean') {
+      errors.push(`when[${i}].exists must be a boolean`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Apply one rule in place; returns whether it changed the event
+ */
+function applyRule(event: Container, rule: TransformRule): boolean | 'drop' {
+  if (rule.when && !matchesConditions(event, rule.when)) {
+    return false;
+  }
+
+  switch (rule.action) {
+    case 'rename_event':
+      if (event.type !== 'track' || event.event !== rule.from) return false;
+      event.event = rule.to;
+      return true;
+
+    case 'copy':
+    case 'move': {
+      const value = getValue(event, rule.from);
+      if (value === undefined || !setValue(event, rule.to, structuredClone(value))) return false;
+      if (rule.action === 'move') deleteValue(event, rule.from);
+      return true;
+    }
+
+    case 'delete':
+      return deleteValue(event, rule.path);
+
+    case 'cast': {
+      const value = getValue(event, rule.path);
+      if (value === undefined || value === null) return false;
+      const cast = castValue(value, rule.to);
+      if (cast === undefined || cast === value) return false;
+      return setValue(event, rule.path, cast);
+    }
+
+    case 'set_default': {
+      const value = getValue(event, rule.path);
+      if (value !== undefined && value !== null) return false;
+      return setValue(event, rule.path, structuredClone(rule.value));
+    }
+
+    case 'drop':
+      return 'drop';
+  }
+}
+
+/**
+ * Apply rules in order to a copy of an event
+ * Values that cannot be cast are left unchanged rather than lost.
+ */
+export function applyTransformRules(event: AnalyticsEvent, rules: TransformRule[]): TransformResult {
+  const result = structuredClone(event) as unknown as Container;
+  const applied: number[] = [];
+
+  for (const [index, rule] of rules.entries()) {
+    const outcome = applyRule(result, rule);
+    if (outcome === 'drop') {
+      return { event: null, applied: [...applied, index] };
+    }
+    if (outcome) {
+      applied.push(index);
+    }
+  }
+
+  return { event: result as unknown as AnalyticsEvent, applied };
+}
+
+/**
+ * Validate a single transformation rule
+ */
+export function validateTransformRule(rule: unknown): ValidationResult {
+  if (!isObject(rule)) {
+    return { valid: false, errors: ['Rule must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const action = rule.action as TransformAction;
+  const targetError = 'must look like $.properties.<field>, $.traits.<field> or $.context.<field>';
+
+  if (!TRANSFORM_ACTIONS.includes(action)) {
+    return { valid: false, errors: [`action must be one of: ${TRANSFORM_ACTIONS.join(', ')}`] };
+  }
+
+  if (rule.when !== undefined) {
+    errors.push(...validateConditions(rule.when));
+  }
+
+  switch (action) {
+    case 'rename_event':
+      if (typeof rule.from !== 'string' || rule.from === '') errors.push('from must be an event name');
+      if (typeof rule.to !== 'string' || rule.to === '') errors.push('to must be an event name');
+      break;
+    case 'copy':
+    case 'move':
+      if (!isTargetPath(rule.from)) errors.push(`from ${targetError}`);
+      if (!isTargetPath(rule.to)) errors.push(`to ${targetError}`);
+      break;
+    case 'delete':
+    case 'set_default':
+      if (!isTargetPath(rule.path)) errors.push(`path ${targetError}`);
+      if (action === 'set_default' && rule.value === undefined) errors.push('value is required');
+      break;
+    case 'cast':
+      if (!isTargetPath(rule.path)) errors.push(`path ${targetError}`);
+      if (!CAST_TYPES.includes(rule.to as TransformCastType)) errors.push(`to must be one of: ${CAST_TYPES.join(', ')}`);
+      break;
+    case 'drop':
+      // Guard against a rule that silently discards everything
+      if (!Array.isArray(rule.when) || rule.when.length === 0) errors.push('drop rules require a when condition');
+      break;
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validate a list of transformation rules
+ */
+export function validateTransformRules(rules: unknown): ValidationResult {
+  if (!Array.isArray(rules)) {
+    return { valid: false, errors: ['Transformation rules must be an array'] };
+  }
+
+  const errors = rules.flatMap((rule, i) => validateTransformRule(rule).errors.map(error => `Rule ${i}: ${error}`));
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,148 @@
+/**
+ * Lightweight user-agent parsing for filling browser/OS/device context
+ *
+ * Covers the browsers and platforms that make up nearly all web traffic.
+ * Anything unrecognised is left undefined rather than guessed.
+ */
+
+import type { EventContext } from './event-schema.js';
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+export interface ParsedUserAgent {
+  browser: { name?: string; version?: string };
+  os: { name?: string; version?: string };
+  device: { type?: DeviceType };
+}
+
+/**
+ * Browser patterns, checked in order - more specific tokens first since
+ * most browsers also include "Chrome" and/or "Safari" in their UA string
+ */
+const BROWSER_PATTERNS: Array<[name: string, pattern: RegExp]> = [
+  ['Edge', /\bEdg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /\b(?:OPR|Opera)\/([\d.]+)/],
+  ['Samsung Internet', /\bSamsungBrowser\/([\d.]+)/],
+  ['Firefox', /\b(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /\b(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /\bVersion\/([\d.]+).*\bSafari\//],
+  ['Internet Explorer', /\b(?:MSIE |Trident\/.*\brv:)([\d.]+)/],
+];
+
+/**
+ * Tokens found in crawler, headless browser and HTTP library user agents
+ */
+const BOT_PATTERN = new RegExp(
+  [
+    'bot\\b', 'crawl', 'spider', 'slurp', 'archiver', 'scraper',
+    'headlesschrome', 'phantomjs', 'puppeteer', 'playwright', 'selenium', 'webdriver',
+    'lighthouse', 'pagespeed', 'pingdom', 'uptimerobot', 'statuscake',
+    'facebookexternalhit', 'bingpreview', 'embedly', 'whatsapp',
+    'python-requests', 'python-urllib', 'go-http-client', 'curl/', 'wget/', 'scrapy',
+  ].join('|'),
+  'i'
+);
+
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+  '6.0': 'Vista',
+  '5.1': 'XP',
+};
+
+function parseBrowser(ua: string): ParsedUserAgent['browser'] {
+  for (const [name, pattern] of BROWSER_PATTERNS) {
+    const match = ua.match(pattern);
+    if (match) {
+      return { name, version: match[1] };
+    }
+  }
+  return {};
+}
+
+function parseOs(ua: string): ParsedUserAgent['os'] {
+  let match: RegExpMatchArray | null;
+
+  if ((match = ua.match(/\bWindows NT ([\d.]+)/))) {
+    return { name: 'Windows', version: WINDOWS_VERSIONS[match[1]] ?? match[1] };
+  }
+  if ((match = ua.match(/\b(?:iPhone|iPad|iPod).*?\bOS ([\d_]+)/))) {
+    return { name: 'iOS', version: match[1].replace(/_/g, '.') };
+  }
+  if ((match = ua.match(/\bAndroid ([\d.]+)/))) {
+    return { name: 'Android', version: match[1] };
+  }
+  if (/\bAndroid\b/.test(ua)) {
+    return { name: 'Android' };
+  }
+  if ((match = ua.match(/\bMac OS X ([\d_.]+)/))) {
+    return { name: 'macOS', version: match[1].replace(/_/g, '.') };
+  }
+  if (/\bCrOS\b/.test(ua)) {
+    return { name: 'Chrome OS' };
+  }
+  if (/\bLinux\b/.test(ua)) {
+    return { name: 'Linux' };
+  }
+  return {};
+}
+
+function parseDeviceType(ua: string): DeviceType | undefined {
+  if (/\biPad\b|\bTablet\b/i.test(ua) || (/\bAndroid\b/.test(ua) && !/\bMobile\b/.test(ua))) {
+    return 'tablet';
+  }
+  if (/\bMobi|\biPhone\b|\biPod\b/.test(ua)) {
+    return 'mobile';
+  }
+  if (/\bWindows NT\b|\bMacintosh\b|\bX11\b|\bCrOS\b/.test(ua)) {
+    return 'desktop';
+  }
+  return undefined;
+}
+
+/**
+ * Parse a user-agent string into browser, OS and device type
+ */
+export function parseUserAgent(ua: string): ParsedUserAgent {
+  return {
+    browser: parseBrowser(ua),
+    os: parseOs(ua),
+    device: { type: parseDeviceType(ua) },
+  };
+}
+
+/**
+ * Fill missing browser, OS and device type from context.userAgent
+ * Values sent by the client always take precedence.
+ */
+export function enrichUserAgent(context: EventContext): EventContext {
+  if (!context.userAgent) {
+    return context;
+  }
+
+  const parsed = parseUserAgent(context.userAgent);
+  const enriched: EventContext = { ...context };
+
+  if (!context.browser?.name && parsed.browser.name) {
+    enriched.browser = { ...context.browser, ...parsed.browser };
+  }
+
+  if (!context.os?.name && parsed.os.name) {
+    enriched.os = { ...context.os, ...parsed.os };
+  }
+
+  if (!context.device?.type && parsed.device.type) {
+    enriched.device = { ...context.device, type: parsed.device.type };
+  }
+
+  return enriched;
+}
+
+/**
+ * Whether a user-agent string belongs to a crawler, headless browser or script
+ */
+export function isBotUserAgent(ua: string): boolean {
+  return BOT_PATTERN.test(ua);
+}
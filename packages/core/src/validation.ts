@@ -1,4 +1,7 @@
 import type { AnalyticsEvent, AnalyticsBatch, EventType, FlattenedEvent } from './event-schema.js';
+import { promoteColumns, type PromotedColumn } from './promoted-columns.js';
+import { correctClockSkew } from './timestamp.js';
+import { enrichUserAgent } from './user-agent.js';
 
 const VALID_EVENT_TYPES: EventType[] = ['track', 'identify', 'page', 'screen', 'group', 'alias'];
 
@@ -7,10 +10,29 @@ export interface ValidationResult {
   errors: string[];
 }
 
+/**
+ * Options for flattening events
+ */
+export interface FlattenOptions {
+  /** ID of the source that sent the event (stamped onto source_id) */
+  sourceId?: string | null;
+  /** Fill missing browser/OS/device type in context from context.userAgent */
+  parseUserAgent?: boolean;
+  /** Shift timestamps by the client clock's offset (sentAt vs received_at) */
+  correctClockSkew?: boolean;
+  /** Typed top-level columns copied from JSON fields (default: none) */
+  promotedColumns?: PromotedColumn[];
+}
+
+export interface ValidateOptions {
+  /** Require a userId or anonymousId (default: true; webhooks may have neither) */
+  requireIdentity?: boolean;
+}
+
 /**
  * Validate a single analytics event
  */
-export function validateEvent(event: unknown): ValidationResult {
+export function validateEvent(event: unknown, options: ValidateOptions = {}): ValidationResult {
   const errors: string[] = [];
 
   if (!event || typeof event !== 'object') {
@@ -20,7 +42,7 @@ export function validateEvent(event: unknown): ValidationResult {
   const e = event as Record<string, unknown>;
 
   // Must have userId or anonymousId
-  if (!e.userId && !e.anonymousId) {
+  if (options.requireIdentity !== false && !e.userId && !e.anonymousId) {
     errors.push('Event must have either userId or anonymousId');
   }
 
@@ -54,7 +76,7 @@ export function validateEvent(event: unknown): ValidationResult {
 /**
  * Validate a batch of events
  */
-export function validateBatch(batch: unknown): ValidationResult {
+export function validateBatch(batch: unknown, options: ValidateOptions = {}): ValidationResult {
   const errors: string[] = [];
 
   if (!batch || typeof batch !== 'object') {
@@ -72,7 +94,7 @@ export function validateBatch(batch: unknown): ValidationResult {
   }
 
   for (let i = 0; i < b.batch.length; i++) {
-    const result = validateEvent(b.batch[i]);
+    const result = validateEvent(b.batch[i], options);
     if (!result.valid) {
       errors.push(...result.errors.map(err => `batch[${i}]: ${err}`));
     }
@@ -125,29 +147,48 @@ export function toIsoString(value: string | number | Date | undefined | null): s
  * Flatten an analytics event for Iceberg storage
  * Timestamps are converted to ISO 8601 strings for Cloudflare Pipelines
  */
-export function flattenEvent(event: AnalyticsEvent, receivedAt: string): FlattenedEvent {
+export function flattenEvent(
+  event: AnalyticsEvent,
+  receivedAt: string,
+  options: FlattenOptions = {}
+): FlattenedEvent {
   const receivedAtIso = toIsoString(receivedAt) || new Date().toISOString();
-
-  return {
+  const context = event.context && options.parseUserAgent
+    ? enrichUserAgent(event.context)
+    : event.context;
+
+  // Client-reported time (RudderStack SDKs send originalTimestamp instead of timestamp)
+  const originalTimestamp = toIsoString(event.timestamp) || toIsoString(event.originalTimestamp);
+  const sentAt = toIsoString(event.sentAt);
+  const timestamp = originalTimestamp && sentAt && options.correctClockSkew
+    ? correctClockSkew(originalTimestamp, sentAt, receivedAtIso)
+    : originalTimestamp;
+
+  return promoteColumns({
     message_id: event.messageId || generateMessageId(),
     type: event.type,
     user_id: event.userId || null,
     anonymous_id: event.anonymousId || null,
+    previous_id: event.type === 'alias' ? event.previousId || null : null,
+    group_id: event.type === 'group' ? event.groupId || null : null,
     event: 'event' in event ? event.event : null,
     name: 'name' in event ? event.name || null : null,
     properties: 'properties' in event ? event.properties || null : null,
     traits: 'traits' in event ? event.traits || null : null,
-    context: event.context || null,
-    timestamp: toIsoString(event.timestamp) || receivedAtIso,
-    sent_at: toIsoString(event.sentAt),
+    context: context || null,
+    timestamp: timestamp || receivedAtIso,
+    original_timestamp: originalTimestamp,
+    sent_at: sentAt,
     received_at: receivedAtIso,
-  };
+    source_id: options.sourceId ?? null,
+    ...(event.integrations ? { integrations: event.integrations } : {}),
+  }, options.promotedColumns ?? []);
 }
 
 /**
  * Flatten a batch of events
  */
-export function flattenBatch(batch: AnalyticsBatch): FlattenedEvent[] {
+export function flattenBatch(batch: AnalyticsBatch, options: FlattenOptions = {}): FlattenedEvent[] {
   const receivedAt = new Date().toISOString();
-  return batch.batch.map(event => flattenEvent(event, receivedAt));
+  return batch.batch.map(event => flattenEvent(event, receivedAt, options));
 }
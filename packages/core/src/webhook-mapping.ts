@@ -0,0 +1,212 @@
+/**
+ * Declarative mappings from webhook payloads to track events
+ *
+ * A mapping picks a track event for each webhook type (e.g. Stripe's
+ * `invoice.paid` → "Invoice Paid") and reads its fields from the payload with
+ * paths such as `$.data.object.amount_paid`. Numeric segments index arrays:
+ * `$.items.data.0.price.id`.
+ */
+
+import type { TrackEvent } from './event-schema.js';
+import type { ValidationResult } from './validation.js';
+
+/**
+ * Conversions applied to a value read from a payload
+ * - cents: minor currency units to major, e.g. Stripe amounts; divides by 100
+ *   unless `currency` points to a zero-decimal currency such as JPY
+ * - unix_seconds: Unix timestamp in seconds to ISO 8601
+ * - string: convert to a string
+ */
+export type WebhookTransform = 'cents' | 'unix_seconds' | 'string';
+
+/**
+ * A payload path, optionally with a conversion
+ * `currency` is the path to the amount's ISO 4217 code (used by `cents`)
+ */
+export type WebhookValue = string | { path: string; transform: WebhookTransform; currency?: string };
+
+export interface WebhookEventMapping {
+  /** Track event name */
+  event: string;
+  userId?: WebhookValue;
+  anonymousId?: WebhookValue;
+  /** Stable delivery ID, so provider retries are deduplicated */
+  messageId?: WebhookValue;
+  timestamp?: WebhookValue;
+  /** Property name to value */
+  properties?: Record<string, WebhookValue>;
+}
+
+export interface WebhookMapping {
+  /** Path to the payload's type, e.g. `$.type` (not needed when the type is sent in a header) */
+  typePath?: string;
+  /** Event mappings keyed by webhook type; `*` matches any other type */
+  events: Record<string, WebhookEventMapping>;
+}
+
+const WEBHOOK_TRANSFORMS: WebhookTransform[] = ['cents', 'unix_seconds', 'string'];
+
+/** Currencies whose amounts are already in major units (per Stripe) */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+]);
+
+function isValidPath(path: unknown): path is string {
+  return typeof path === 'string' && /^\$(\.[^.]+)+$/.test(path);
+}
+
+/**
+ * Read the value at a path like `$.data.object.id`
+ * Returns undefined if any segment is missing
+ */
+export function readPayloadPath(payload: unknown, path: string): unknown {
+  let current = payload;
+
+  for (const segment of path.slice(2).split('.')) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (current && typeof current === 'object' && !Array.isArray(current)) {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+function applyTransform(value: unknown, transform: WebhookTransform, currency: unknown): unknown {
+  switch (transform) {
+    case 'cents':
+      if (typeof value !== 'number') return undefined;
+      return typeof currency === 'string' && ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase()) ? value : value / 100;
+    case 'unix_seconds':
+      return typeof value === 'number' ? new Date(value * 1000).toISOString() : undefined;
+    case 'string':
+      return value === null || typeof value === 'object' ? undefined : String(value);
+  }
+}
+
+function resolveValue(payload: unknown, spec: WebhookValue): unknown {
+  if (typeof spec === 'string') {
+    return readPayloadPath(payload, spec);
+  }
+  const value = readPayloadPath(payload, spec.path);
+  if (value === undefined || value === null) return undefined;
+  return applyTransform(value, spec.transform, spec.currency ? readPayloadPath(payload, spec.currency) : undefined);
+}
+
+function resolveString(payload: unknown, spec: WebhookValue | undefined): string | undefined {
+  if (!spec) return undefined;
+  const value = resolveValue(payload, spec);
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * Map a webhook payload to a track event
+ *
+ * The type is read from `mapping.typePath` unless given (e.g. GitHub sends it
+ * in the X-GitHub-Event header). Returns null for types without a mapping.
+ * Missing payload fields are left out rather than stored as null.
+ *
+ * Events are tagged with `context.webhook`. Payloads without a user (e.g. a
+ * guest checkout) are left without a userId or anonymousId rather than given
+ * a made-up visitor; ingest accepts webhook events without one.
+ */
+export function mapWebhookPayload(payload: unknown, mapping: WebhookMapping, type?: string): TrackEvent | null {
+  const webhookType = type ?? (mapping.typePath ? resolveString(payload, mapping.typePath) : undefined);
+  const eventMapping =
+    (webhookType !== undefined && Object.hasOwn(mapping.events, webhookType) ? mapping.events[webhookType] : undefined) ??
+    mapping.events['*'];
+
+  if (!eventMapping) {
+    return null;
+  }
+
+  const properties: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(eventMapping.properties ?? {})) {
+    const value = resolveValue(payload, spec);
+    if (value !== undefined) {
+      properties[name] = value;
+    }
+  }
+
+  const event: TrackEvent = {
+    type: 'track',
+    event: eventMapping.event,
+    properties,
+    context: { webhook: webhookType !== undefined ? { type: webhookType } : {} },
+  };
+
+  const userId = resolveString(payload, eventMapping.userId);
+  const anonymousId = resolveString(payload, eventMapping.anonymousId);
+  const messageId = resolveString(payload, eventMapping.messageId);
+  const timestamp = resolveString(payload, eventMapping.timestamp);
+  if (userId) event.userId = userId;
+  if (anonymousId) event.anonymousId = anonymousId;
+  if (messageId) event.messageId = messageId;
+  if (timestamp) event.timestamp = timestamp;
+
+  return event;
+}
+
+function validateValue(spec: unknown, label: string, errors: string[]): void {
+  if (typeof spec === 'string') {
+    if (!isValidPath(spec)) errors.push(`${label}: path must look like $.field.subfield`);
+    return;
+  }
+
+  const { path, transform, currency } = (spec ?? {}) as Record<string, unknown>;
+  if (!spec || typeof spec !== 'object' || !isValidPath(path)) {
+    errors.push(`${label}: must be a path like $.field.subfield or { path, transform }`);
+  } else if (!WEBHOOK_TRANSFORMS.includes(transform as WebhookTransform)) {
+    errors.push(`${label}: transform must be one of: ${WEBHOOK_TRANSFORMS.join(', ')}`);
+  } else if (currency !== undefined && !isValidPath(currency)) {
+    errors.push(`${label}.currency: path must look like $.field.subfield`);
+  }
+}
+
+/**
+ * Validate a webhook mapping (e.g. parsed from configuration)
+ */
+export function validateWebhookMapping(mapping: unknown): ValidationResult {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return { valid: false, errors: ['Webhook mapping must be an object'] };
+  }
+
+  const { typePath, events } = mapping as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typePath !== undefined && !isValidPath(typePath)) {
+    errors.push('typePath must look like $.field.subfield');
+  }
+  if (!events || typeof events !== 'object' || Array.isArray(events) || Object.keys(events).length === 0) {
+    return { valid: false, errors: [...errors, 'events must be a non-empty object keyed by webhook type'] };
+  }
+
+  for (const [type, eventMapping] of Object.entries(events)) {
+    if (!eventMapping || typeof eventMapping !== 'object') {
+      errors.push(`events.${type}: must be an object`);
+      continue;
+    }
+
+    const { event, properties, ...fields } = eventMapping as Record<string, unknown>;
+    if (typeof event !== 'string' || event === '') {
+      errors.push(`events.${type}.event: must be a non-empty string`);
+    }
+    for (const field of ['userId', 'anonymousId', 'messageId', 'timestamp']) {
+      if (fields[field] !== undefined) validateValue(fields[field], `events.${type}.${field}`, errors);
+    }
+    if (properties !== undefined) {
+      if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+        errors.push(`events.${type}.properties: must be an object`);
+      } else {
+        for (const [name, spec] of Object.entries(properties)) {
+          validateValue(spec, `events.${type}.properties.${name}`, errors);
+        }
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
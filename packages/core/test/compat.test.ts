@@ -0,0 +1,70 @@
+/**
+ * Fixture tests for the Mixpanel, Amplitude and GA4 translators
+ *
+ * Each test/fixtures/<name>.input.json request body is translated and
+ * compared with <name>.expected.json.
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { translateMixpanelEngage, translateMixpanelTrack, type TranslationResult } from '../src/mixpanel.js';
+import { translateAmplitudeBatch } from '../src/amplitude.js';
+import { translateGa4Payload } from '../src/ga4.js';
+import type { TrackEvent } from '../src/event-schema.js';
+
+function readFixture(name: string): unknown {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+}
+
+/**
+ * Translate a fixture, dropping undefined fields as JSON serialization does
+ */
+function translateFixture(name: string, translate: (data: unknown) => TranslationResult): unknown {
+  return JSON.parse(JSON.stringify(translate(readFixture(`${name}.input`))));
+}
+
+describe('translateMixpanelTrack', () => {
+  it('translates track, page view, identify and alias events', () => {
+    assert.deepEqual(
+      translateFixture('mixpanel-track', translateMixpanelTrack),
+      readFixture('mixpanel-track.expected')
+    );
+  });
+
+  it('never copies the project token into properties', () => {
+    const { events } = translateMixpanelTrack({ event: 'Test', properties: { distinct_id: 'u-1', token: 'secret' } });
+    assert.deepEqual((events[0] as TrackEvent).properties, {});
+  });
+});
+
+describe('translateMixpanelEngage', () => {
+  it('turns $set and $set_once updates into identify events', () => {
+    assert.deepEqual(
+      translateFixture('mixpanel-engage', translateMixpanelEngage),
+      readFixture('mixpanel-engage.expected')
+    );
+  });
+});
+
+describe('translateAmplitudeBatch', () => {
+  it('translates events, $identify and $groupidentify', () => {
+    assert.deepEqual(
+      translateFixture('amplitude-httpapi', translateAmplitudeBatch),
+      readFixture('amplitude-httpapi.expected')
+    );
+  });
+
+  it('rejects bodies without an events array', () => {
+    assert.deepEqual(translateAmplitudeBatch({ api_key: 'key' }), { events: [], errors: ['events must be an array'] });
+  });
+});
+
+describe('translateGa4Payload', () => {
+  it('translates page_view to a page event and other events to track events', () => {
+    assert.deepEqual(translateFixture('ga4-collect', translateGa4Payload), readFixture('ga4-collect.expected'));
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for consent policies
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EventContext, FlattenedEvent } from '../src/event-schema.js';
+import {
+  applyConsentPolicy,
+  evaluateConsent,
+  readConsent,
+  validateConsentPolicy,
+  type ConsentPolicy,
+} from '../src/consent.js';
+
+const policy: ConsentPolicy = {
+  requiredCategories: ['Analytics'],
+  denied: 'drop',
+  missing: 'anonymize',
+};
+
+function makeEvent(context: EventContext | null, overrides: Partial<FlattenedEvent> = {}): FlattenedEvent {
+  return {
+    message_id: 'msg-1',
+    type: 'track',
+    user_id: 'user-1',
+    anonymous_id: 'anon-1',
+    previous_id: null,
+    group_id: null,
+    event: 'Order Completed',
+    name: null,
+    properties: { total: 42 },
+    traits: null,
+    context,
+    timestamp: '2025-01-01T00:00:00.000Z',
+    original_timestamp: null,
+    sent_at: null,
+    received_at: '2025-01-01T00:00:00.000Z',
+    source_id: null,
+    ...overrides,
+  };
+}
+
+describe('readConsent', () => {
+  it('returns null when the event carries no consent information', () => {
+    assert.equal(readConsent({ ip: '203.0.113.42' }), null);
+    assert.equal(readConsent(null), null);
+  });
+
+  it('reads Segment category preferences and RudderStack consent IDs', () => {
+    const state = readConsent({
+      consent: { categoryPreferences: { Analytics: true, Advertising: false } },
+      consentManagement: { provider: 'oneTrust', allowedConsentIds: ['C0002'], deniedConsentIds: ['C0004'] },
+    });
+
+    assert.deepEqual(state, { granted: ['analytics', 'c0002'], denied: ['advertising', 'c0004'] });
+  });
+
+  it('ignores consent IDs and preferences that are not in the expected shape', () => {
+    const state = readConsent({
+      consent: { categoryPreferences: 'Analytics' },
+      consentManagement: { allowedConsentIds: 'C0002', deniedConsentIds: { id: 'C0004' } },
+    } as unknown as EventContext);
+
+    assert.deepEqual(state, { granted: [], denied: [] });
+  });
+});
+
+describe('evaluateConsent', () => {
+  it('stores events when every required category is granted', () => {
+    const event = makeEvent({ consent: { categoryPreferences: { analytics: true } } });
+    assert.deepEqual(evaluateConsent(event, policy), { action: 'store', reason: 'granted' });
+  });
+
+  it('applies the denied action when a required category is denied or absent', () => {
+    const denied = makeEvent({ consent: { categoryPreferences: { analytics: false } } });
+    const absent = makeEvent({ consentManagement: { allowedConsentIds: ['marketing'] } });
+
+    assert.deepEqual(evaluateConsent(denied, policy), { action: 'drop', reason: 'denied' });
+    assert.deepEqual(evaluateConsent(absent, policy), { action: 'drop', reason: 'denied' });
+  });
+
+  it('applies the missing action when the event has no consent information', () => {
+    assert.deepEqual(evaluateConsent(makeEvent({}), policy), { action: 'anonymize', reason: 'missing' });
+  });
+});
+
+describe('applyConsentPolicy', () => {
+  it('strips identifiers, traits and IP when anonymizing', () => {
+    const event = makeEvent({
+      ip: '203.0.113.42',
+      userAgent: 'test',
+      traits: { email: 'jane@example.com' },
+      device: { id: 'device-1', type: 'mobile' },
+    });
+
+    const result = applyConsentPolicy(event, policy);
+
+    assert.deepEqual(result.decision, { action: 'anonymize', reason: 'missing' });
+    assert.equal(result.event?.user_id, null);
+    assert.equal(result.event?.anonymous_id, null);
+    assert.deepEqual(result.event?.context, { userAgent: 'test', device: { type: 'mobile' } });
+    assert.deepEqual(result.event?.properties, { total: 42 });
+    // The original event is left untouched
+    assert.equal(event.context?.ip, '203.0.113.42');
+  });
+
+  it('keeps only the country of the geo context when anonymizing', () => {
+    const event = makeEvent({
+      geo: { country: 'DE', region: 'BE', city: 'Berlin', postalCode: '10115', timezone: 'Europe/Berlin', asn: 3320 },
+    });
+
+    assert.deepEqual(applyConsentPolicy(event, policy).event?.context, { geo: { country: 'DE' } });
+    assert.deepEqual(applyConsentPolicy(makeEvent({ geo: { city: 'Berlin' } }), policy).event?.context, {});
+    assert.equal(event.context?.geo?.city, 'Berlin');
+  });
+
+  it('drops identify events that would otherwise be anonymized', () => {
+    const event = makeEvent({}, { type: 'identify', event: null, traits: { email: 'jane@example.com' } });
+    const result = applyConsentPolicy(event, policy);
+
+    assert.equal(result.event, null);
+    assert.deepEqual(result.decision, { action: 'drop', reason: 'missing' });
+  });
+});
+
+describe('validateConsentPolicy', () => {
+  it('accepts a valid policy', () => {
+    assert.deepEqual(validateConsentPolicy(policy), { valid: true, errors: [] });
+  });
+
+  it('reports invalid fields', () => {
+    const result = validateConsentPolicy({ requiredCategories: [], denied: 'delete' });
+    assert.equal(result.valid, false);
+    assert.equal(result.errors.length, 3);
+  });
+});
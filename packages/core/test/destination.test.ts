@@ -0,0 +1,78 @@
+/**
+ * Tests for destination routing and payload templates
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FlattenedEvent } from '../src/event-schema.js';
+import { flattenEvent } from '../src/validation.js';
+import { isIntegrationEnabled, renderPayloadTemplate, shouldForward, toStoredEvent } from '../src/destination.js';
+
+function makeEvent(integrations?: Record<string, boolean>): FlattenedEvent {
+  return flattenEvent(
+    {
+      type: 'track',
+      event: 'Order Completed',
+      userId: 'user-1',
+      messageId: 'msg-1',
+      properties: { revenue: 49.5, plan: 'pro' },
+      context: { page: { url: 'https://example.com/checkout' } },
+      integrations,
+    },
+    '2026-06-01T12:00:00.000Z'
+  );
+}
+
+describe('isIntegrationEnabled', () => {
+  it('follows Segment opt-out semantics', () => {
+    assert.equal(isIntegrationEnabled(undefined, 'CRM'), true);
+    assert.equal(isIntegrationEnabled({ CRM: false }, 'CRM'), false);
+    assert.equal(isIntegrationEnabled({ CRM: false }, 'Marketing'), true);
+    assert.equal(isIntegrationEnabled({ All: false, CRM: true }, 'CRM'), true);
+    assert.equal(isIntegrationEnabled({ All: false, CRM: true }, 'Marketing'), false);
+  });
+});
+
+describe('shouldForward', () => {
+  it('requires the integrations map and the filter to allow the event', () => {
+    const filter = [{ path: '$.event', in: ['Order Completed', 'Order Refunded'] }];
+
+    assert.equal(shouldForward(makeEvent(), { name: 'CRM', filter }), true);
+    assert.equal(shouldForward(makeEvent({ CRM: false }), { name: 'CRM', filter }), false);
+    assert.equal(shouldForward(makeEvent(), { name: 'CRM', filter: [{ path: '$.properties.plan', equals: 'free' }] }), false);
+  });
+});
+
+describe('renderPayloadTemplate', () => {
+  it('replaces paths with event values and leaves out missing ones', () => {
+    const payload = renderPayloadTemplate(
+      {
+        source: 'icelight',
+        id: '$.message_id',
+        contact: { externalId: '$.user_id', email: '$.traits.email' },
+        amount: '$.properties.revenue',
+        tags: ['$.event', '$.properties.missing'],
+      },
+      makeEvent()
+    );
+
+    assert.deepEqual(payload, {
+      source: 'icelight',
+      id: 'msg-1',
+      contact: { externalId: 'user-1' },
+      amount: 49.5,
+      tags: ['Order Completed', null],
+    });
+  });
+});
+
+describe('toStoredEvent', () => {
+  it('removes the integrations map before storage', () => {
+    const event = makeEvent({ CRM: false });
+    assert.deepEqual(event.integrations, { CRM: false });
+    assert.equal('integrations' in toStoredEvent(event), false);
+  });
+});
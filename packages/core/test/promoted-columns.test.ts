@@ -0,0 +1,135 @@
+/**
+ * Tests for promoted columns
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenEvent } from '../src/validation.js';
+import { toStoredEvent } from '../src/destination.js';
+import {
+  extractPromotedColumns,
+  parsePromotedColumns,
+  promoteColumns,
+  validatePromotedColumns,
+  type PromotedColumn,
+} from '../src/promoted-columns.js';
+
+const RECEIVED_AT = '2026-06-01T12:00:00.000Z';
+
+const COLUMNS: PromotedColumn[] = [
+  { name: 'revenue', type: 'float64', path: '$.properties.revenue' },
+  { name: 'currency', type: 'string', path: '$.properties.currency' },
+  { name: 'page_path', type: 'string', path: '$.context.page.path' },
+];
+
+describe('flattenEvent', () => {
+  it('emits promoted columns next to the JSON fields', () => {
+    const event = flattenEvent(
+      {
+        type: 'track',
+        event: 'Order Completed',
+        userId: 'user-1',
+        properties: { revenue: '49.5', currency: 'EUR' },
+        context: { page: { path: '/checkout' } },
+      },
+      RECEIVED_AT,
+      { promotedColumns: COLUMNS }
+    );
+
+    assert.deepEqual(event.promoted, { revenue: 49.5, currency: 'EUR', page_path: '/checkout' });
+    assert.deepEqual(event.properties, { revenue: '49.5', currency: 'EUR' });
+  });
+
+  it('promotes nothing unless columns are configured', () => {
+    const event = flattenEvent({ type: 'track', event: 'Paid', userId: 'user-1', properties: { revenue: 5 } }, RECEIVED_AT);
+    assert.equal(event.promoted, undefined);
+    assert.equal('revenue' in toStoredEvent(event), false);
+  });
+
+  it('fills missing fields with null', () => {
+    const event = flattenEvent({ type: 'identify', userId: 'user-1' }, RECEIVED_AT);
+    assert.deepEqual(extractPromotedColumns(event, COLUMNS), { revenue: null, currency: null, page_path: null });
+  });
+});
+
+describe('toStoredEvent', () => {
+  it('writes promoted values as top-level columns', () => {
+    const event = flattenEvent(
+      { type: 'track', event: 'Paid', userId: 'user-1', properties: { revenue: 5 }, integrations: { Slack: false } },
+      RECEIVED_AT,
+      { promotedColumns: COLUMNS }
+    );
+    const stored = toStoredEvent(event);
+
+    assert.equal(stored.revenue, 5);
+    assert.equal(stored.currency, null);
+    assert.equal('promoted' in stored, false);
+    assert.equal('integrations' in stored, false);
+  });
+});
+
+describe('extractPromotedColumns', () => {
+  it('stores values that do not fit the column type as null', () => {
+    const columns: PromotedColumn[] = [
+      { name: 'quantity', type: 'int64', path: '$.properties.quantity' },
+      { name: 'price', type: 'float64', path: '$.properties.price' },
+      { name: 'trial', type: 'bool', path: '$.traits.trial' },
+      { name: 'plan', type: 'string', path: '$.traits.plan' },
+    ];
+    const event = flattenEvent(
+      { type: 'identify', userId: 'user-1', traits: { trial: 'true', plan: { id: 'pro' } } },
+      RECEIVED_AT,
+      { promotedColumns: [] }
+    );
+
+    assert.deepEqual(extractPromotedColumns({ ...event, properties: { quantity: 2.5, price: 'free' } }, columns), {
+      quantity: null,
+      price: null,
+      trial: true,
+      plan: null,
+    });
+  });
+
+  it('refreshes columns after the JSON is rewritten', () => {
+    const event = flattenEvent(
+      { type: 'track', event: 'Paid', userId: 'user-1', properties: { currency: 'USD' } },
+      RECEIVED_AT,
+      { promotedColumns: COLUMNS }
+    );
+    assert.equal(promoteColumns({ ...event, properties: {} }, COLUMNS).promoted?.currency, null);
+  });
+});
+
+describe('parsePromotedColumns', () => {
+  it('promotes nothing when unset', () => {
+    assert.deepEqual(parsePromotedColumns(undefined), { success: true, columns: [] });
+    assert.deepEqual(parsePromotedColumns('  '), { success: true, columns: [] });
+  });
+
+  it('parses a valid column list', () => {
+    assert.deepEqual(parsePromotedColumns(JSON.stringify(COLUMNS)), { success: true, columns: COLUMNS });
+  });
+
+  it('rejects invalid JSON and invalid columns', () => {
+    assert.deepEqual(parsePromotedColumns('[{'), { success: false, message: 'PROMOTED_COLUMNS is not valid JSON' });
+    assert.deepEqual(parsePromotedColumns('{}'), { success: false, message: 'Promoted columns must be an array' });
+  });
+});
+
+describe('validatePromotedColumns', () => {
+  it('rejects clashing names, unknown types and paths outside the JSON fields', () => {
+    const result = validatePromotedColumns([
+      { name: 'user_id', type: 'string', path: '$.traits.user_id' },
+      { name: 'score', type: 'decimal', path: '$.score' },
+    ]);
+
+    assert.deepEqual(result.errors, [
+      'Column 0: user_id is already a column',
+      'Column 1: type must be one of: string, float64, int64, bool',
+      'Column 1: path must look like $.properties.<field>, $.traits.<field> or $.context.<field>',
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for PII redaction rules
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import type { FlattenedEvent } from '../src/event-schema.js';
+import {
+  applyRedactionRules,
+  truncateIp,
+  validateRedactionRules,
+  REDACTED_VALUE,
+} from '../src/redaction.js';
+
+function makeEvent(overrides: Partial<FlattenedEvent> = {}): FlattenedEvent {
+  return {
+    message_id: 'msg-1',
+    type: 'identify',
+    user_id: 'user-1',
+    anonymous_id: null,
+    previous_id: null,
+    group_id: null,
+    event: null,
+    name: null,
+    properties: null,
+    traits: { email: 'jane@example.com', plan: 'pro' },
+    context: { ip: '203.0.113.42', userAgent: 'test' },
+    timestamp: '2025-01-01T00:00:00.000Z',
+    original_timestamp: null,
+    sent_at: null,
+    received_at: '2025-01-01T00:00:00.000Z',
+    source_id: null,
+    ...overrides,
+  };
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+describe('validateRedactionRules', () => {
+  it('accepts well-formed rules', () => {
+    const result = validateRedactionRules([
+      { path: '$.traits.email', action: 'hash' },
+      { path: '$.context.ip', action: 'truncate_ip' },
+      { path: '$.properties.*.password', action: 'drop' },
+    ]);
+    assert.deepEqual(result, { valid: true, errors: [] });
+  });
+
+  it('rejects non-array configuration', () => {
+    assert.equal(validateRedactionRules({ path: '$.traits.email' }).valid, false);
+  });
+
+  it('rejects paths outside properties, traits and context', () => {
+    const result = validateRedactionRules([
+      { path: '$.user_id', action: 'hash' },
+      { path: 'traits.email', action: 'hash' },
+      { path: '$.traits', action: 'drop' },
+    ]);
+    assert.equal(result.errors.length, 3);
+  });
+
+  it('rejects unknown actions', () => {
+    const result = validateRedactionRules([{ path: '$.traits.email', action: 'encrypt' }]);
+    assert.match(result.errors[0], /action must be one of/);
+  });
+});
+
+describe('truncateIp', () => {
+  it('truncates IPv4 addresses to /24', () => {
+    assert.equal(truncateIp('203.0.113.42'), '203.0.113.0');
+  });
+
+  it('truncates IPv6 addresses to /48', () => {
+    assert.equal(truncateIp('2001:0db8:85a3:0000:0000:8a2e:0370:7334'), '2001:db8:85a3::');
+    assert.equal(truncateIp('2001:db8::1'), '2001:db8:0::');
+  });
+
+  it('returns null for values that are not IP addresses', () => {
+    assert.equal(truncateIp('not-an-ip'), null);
+    assert.equal(truncateIp('300.1.1.1'), null);
+    assert.equal(truncateIp('1:2:3'), null);
+  });
+});
+
+describe('applyRedactionRules', () => {
+  it('hashes values with a salted SHA-256', async () => {
+    const event = makeEvent();
+    const result = await applyRedactionRules(event, [{ path: '$.traits.email', action: 'hash' }], { salt: 'pepper' });
+
+    assert.equal(result.traits?.email, sha256('pepperjane@example.com'));
+    assert.equal(result.traits?.plan, 'pro');
+  });
+
+  it('throws if a hash rule matches and no salt is configured', async () => {
+    await assert.rejects(
+      applyRedactionRules(makeEvent(), [{ path: '$.traits.email', action: 'hash' }]),
+      /requires a hashing salt/
+    );
+  });
+
+  it('truncates IP addresses in context', async () => {
+    const result = await applyRedactionRules(makeEvent(), [{ path: '$.context.ip', action: 'truncate_ip' }]);
+    assert.equal(result.context?.ip, '203.0.113.0');
+  });
+
+  it('drops values that cannot be truncated as IP addresses', async () => {
+    const event = makeEvent({ context: { ip: 'unknown' } });
+    const result = await applyRedactionRules(event, [{ path: '$.context.ip', action: 'truncate_ip' }]);
+    assert.equal('ip' in (result.context ?? {}), false);
+  });
+
+  it('drops and masks properties, including nested and wildcard paths', async () => {
+    const event = makeEvent({
+      type: 'track',
+      event: 'Signed Up',
+      properties: {
+        password: 'hunter2',
+        comment: 'call me on 555-0100',
+        accounts: [{ token: 'a' }, { token: 'b' }],
+      },
+    });
+    const result = await applyRedactionRules(event, [
+      { path: '$.properties.password', action: 'drop' },
+      { path: '$.properties.comment', action: 'mask' },
+      { path: '$.properties.accounts.*.token', action: 'drop' },
+    ]);
+
+    assert.deepEqual(result.properties, {
+      comment: REDACTED_VALUE,
+      accounts: [{}, {}],
+    });
+  });
+
+  it('does not modify the input event', async () => {
+    const event = makeEvent();
+    await applyRedactionRules(event, [
+      { path: '$.traits.email', action: 'drop' },
+      { path: '$.context.ip', action: 'truncate_ip' },
+    ]);
+
+    assert.equal(event.traits?.email, 'jane@example.com');
+    assert.equal(event.context?.ip, '203.0.113.42');
+  });
+
+  it('ignores rules whose path is missing from the event', async () => {
+    const event = makeEvent();
+    const result = await applyRedactionRules(event, [{ path: '$.properties.password', action: 'drop' }]);
+    assert.deepEqual(result, event);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for clock-skew correction and timestamp policies
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AnalyticsEvent } from '../src/event-schema.js';
+import { flattenEvent } from '../src/validation.js';
+import { applyTimestampPolicy, correctClockSkew, type TimestampPolicy } from '../src/timestamp.js';
+
+const RECEIVED_AT = '2025-06-01T12:00:00.000Z';
+
+const DAY = 86400;
+
+function track(fields: Partial<AnalyticsEvent>): AnalyticsEvent {
+  return { type: 'track', event: 'Test', userId: 'user-1', ...fields } as AnalyticsEvent;
+}
+
+describe('correctClockSkew', () => {
+  it('removes the offset between sentAt and receivedAt', () => {
+    // Device clock is one year ahead
+    const corrected = correctClockSkew('2026-06-01T11:59:00.000Z', '2026-06-01T12:00:00.000Z', RECEIVED_AT);
+    assert.equal(corrected, '2025-06-01T11:59:00.000Z');
+  });
+});
+
+describe('flattenEvent timestamps', () => {
+  it('corrects skew and keeps the original timestamp when enabled', () => {
+    const event = track({ timestamp: '2026-06-01T11:59:00.000Z', sentAt: '2026-06-01T12:00:00.000Z' });
+    const flattened = flattenEvent(event, RECEIVED_AT, { correctClockSkew: true });
+
+    assert.equal(flattened.timestamp, '2025-06-01T11:59:00.000Z');
+    assert.equal(flattened.original_timestamp, '2026-06-01T11:59:00.000Z');
+    assert.equal(flattened.sent_at, '2026-06-01T12:00:00.000Z');
+  });
+
+  it('leaves timestamps unchanged when correction is disabled', () => {
+    const event = track({ timestamp: '2026-06-01T11:59:00.000Z', sentAt: '2026-06-01T12:00:00.000Z' });
+    const flattened = flattenEvent(event, RECEIVED_AT);
+
+    assert.equal(flattened.timestamp, '2026-06-01T11:59:00.000Z');
+    assert.equal(flattened.original_timestamp, '2026-06-01T11:59:00.000Z');
+  });
+
+  it('does not correct events without sentAt', () => {
+    const flattened = flattenEvent(track({ timestamp: '2025-06-01T11:00:00.000Z' }), RECEIVED_AT, {
+      correctClockSkew: true,
+    });
+    assert.equal(flattened.timestamp, '2025-06-01T11:00:00.000Z');
+  });
+
+  it('falls back to originalTimestamp and then received_at', () => {
+    const fromOriginal = flattenEvent(track({ originalTimestamp: '2025-06-01T11:00:00.000Z' }), RECEIVED_AT);
+    assert.equal(fromOriginal.timestamp, '2025-06-01T11:00:00.000Z');
+
+    const fromReceived = flattenEvent(track({}), RECEIVED_AT);
+    assert.equal(fromReceived.timestamp, RECEIVED_AT);
+    assert.equal(fromReceived.original_timestamp, null);
+  });
+});
+
+describe('applyTimestampPolicy', () => {
+  const policy: TimestampPolicy = { action: 'reject', maxFutureSeconds: DAY, maxAgeSeconds: 30 * DAY };
+
+  function flattened(timestamp: string) {
+    return flattenEvent(track({ timestamp }), RECEIVED_AT);
+  }
+
+  it('accepts timestamps inside the window', () => {
+    const event = flattened('2025-05-20T00:00:00.000Z');
+    assert.deepEqual(applyTimestampPolicy(event, policy), { event });
+  });
+
+  it('rejects timestamps too far in the future or past', () => {
+    const future = applyTimestampPolicy(flattened('2025-06-03T12:00:00.000Z'), policy);
+    assert.equal(future.event, null);
+    assert.match(future.error!, /in the future/);
+
+    const past = applyTimestampPolicy(flattened('2025-01-01T00:00:00.000Z'), policy);
+    assert.equal(past.event, null);
+    assert.match(past.error!, /in the past/);
+  });
+
+  it('allows any age when maxAgeSeconds is null', () => {
+    const event = flattened('2015-01-01T00:00:00.000Z');
+    assert.equal(applyTimestampPolicy(event, { ...policy, maxAgeSeconds: null }).event, event);
+  });
+
+  it('clamps to received_at when the action is clamp', () => {
+    const result = applyTimestampPolicy(flattened('2030-01-01T00:00:00.000Z'), { ...policy, action: 'clamp' });
+    assert.equal(result.event?.timestamp, RECEIVED_AT);
+    assert.equal(result.event?.original_timestamp, '2030-01-01T00:00:00.000Z');
+  });
+
+  it('keeps out-of-range events when the action is accept', () => {
+    const event = flattened('2030-01-01T00:00:00.000Z');
+    assert.equal(applyTimestampPolicy(event, { ...policy, action: 'accept' }).event, event);
+  });
+});
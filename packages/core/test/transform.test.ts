@@ -0,0 +1,102 @@
+/**
+ * Tests for event transformation rules
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AnalyticsEvent, TrackEvent } from '../src/event-schema.js';
+import { applyTransformRules, validateTransformRule, validateTransformRules } from '../src/transform.js';
+
+function makeEvent(overrides: Partial<TrackEvent> = {}): TrackEvent {
+  return {
+    type: 'track',
+    event: 'signup',
+    userId: 'user-1',
+    properties: { price: '19.90', plan: 'pro', debug: true },
+    context: { page: { url: 'https://example.com/signup' } },
+    ...overrides,
+  };
+}
+
+describe('applyTransformRules', () => {
+  it('renames events and fixes properties in order', () => {
+    const event = makeEvent();
+    const result = applyTransformRules(event, [
+      { action: 'rename_event', from: 'signup', to: 'Signed Up' },
+      { action: 'cast', path: '$.properties.price', to: 'number' },
+      { action: 'move', from: '$.properties.plan', to: '$.properties.subscription.plan' },
+      { action: 'copy', from: '$.context.page.url', to: '$.properties.url' },
+      { action: 'delete', path: '$.properties.debug' },
+      { action: 'set_default', path: '$.properties.currency', value: 'EUR' },
+    ]);
+
+    assert.deepEqual(result.applied, [0, 1, 2, 3, 4, 5]);
+    assert.equal((result.event as TrackEvent).event, 'Signed Up');
+    assert.deepEqual((result.event as TrackEvent).properties, {
+      price: 19.9,
+      subscription: { plan: 'pro' },
+      url: 'https://example.com/signup',
+      currency: 'EUR',
+    });
+    // The input event is left untouched
+    assert.equal(event.event, 'signup');
+  });
+
+  it('skips rules whose conditions do not match', () => {
+    const result = applyTransformRules(makeEvent(), [
+      { action: 'delete', path: '$.properties.plan', when: [{ path: '$.event', equals: 'Order Completed' }] },
+      { action: 'set_default', path: '$.properties.plan', value: 'free' },
+    ]);
+
+    assert.deepEqual(result.applied, []);
+    assert.equal((result.event as TrackEvent).properties?.plan, 'pro');
+  });
+
+  it('leaves values that cannot be cast unchanged', () => {
+    const event = makeEvent({ properties: { price: 'free' } });
+    const result = applyTransformRules(event, [{ action: 'cast', path: '$.properties.price', to: 'number' }]);
+
+    assert.deepEqual(result.applied, []);
+    assert.equal((result.event as TrackEvent).properties?.price, 'free');
+  });
+
+  it('drops matching events', () => {
+    const rules = [
+      { action: 'drop' as const, when: [{ path: '$.context.page.url', exists: true }, { path: '$.properties.debug', in: [true] }] },
+    ];
+
+    assert.deepEqual(applyTransformRules(makeEvent(), rules), { event: null, applied: [0] });
+
+    const identify: AnalyticsEvent = { type: 'identify', userId: 'user-1', traits: { email: 'jane@example.com' } };
+    assert.deepEqual(applyTransformRules(identify, rules).event, identify);
+  });
+});
+
+describe('validateTransformRule', () => {
+  it('accepts valid rules', () => {
+    assert.deepEqual(validateTransformRule({ action: 'cast', path: '$.traits.age', to: 'number' }), {
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('rejects paths outside properties, traits and context', () => {
+    const result = validateTransformRule({ action: 'delete', path: '$.userId' });
+    assert.equal(result.valid, false);
+  });
+
+  it('requires a condition for drop rules', () => {
+    assert.deepEqual(validateTransformRule({ action: 'drop' }), {
+      valid: false,
+      errors: ['drop rules require a when condition'],
+    });
+  });
+
+  it('prefixes errors with the rule index in lists', () => {
+    const result = validateTransformRules([{ action: 'rename_event', from: 'a', to: 'b' }, { action: 'explode' }]);
+    assert.deepEqual(result.errors, ['Rule 1: action must be one of: rename_event, copy, move, delete, cast, set_default, drop']);
+  });
+});
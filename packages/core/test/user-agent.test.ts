@@ -0,0 +1,118 @@
+/**
+ * Tests for user-agent parsing and bot detection
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { enrichUserAgent, isBotUserAgent, parseUserAgent } from '../src/user-agent.js';
+import { flattenEvent } from '../src/validation.js';
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const EDGE_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.2592.87';
+const SAMSUNG_ANDROID =
+  'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/25.0 Chrome/121.0.0.0 Mobile Safari/537.36';
+const CHROME_ANDROID_TABLET =
+  'Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const FIREFOX_LINUX = 'Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0';
+
+describe('parseUserAgent', () => {
+  it('parses desktop Chrome on macOS', () => {
+    assert.deepEqual(parseUserAgent(CHROME_MAC), {
+      browser: { name: 'Chrome', version: '126.0.0.0' },
+      os: { name: 'macOS', version: '10.15.7' },
+      device: { type: 'desktop' },
+    });
+  });
+
+  it('parses mobile Safari on iOS', () => {
+    assert.deepEqual(parseUserAgent(SAFARI_IPHONE), {
+      browser: { name: 'Safari', version: '17.5' },
+      os: { name: 'iOS', version: '17.5' },
+      device: { type: 'mobile' },
+    });
+  });
+
+  it('prefers specific browser tokens over the Chrome and Safari they also contain', () => {
+    assert.deepEqual(parseUserAgent(EDGE_WINDOWS), {
+      browser: { name: 'Edge', version: '126.0.2592.87' },
+      os: { name: 'Windows', version: '10' },
+      device: { type: 'desktop' },
+    });
+    assert.deepEqual(parseUserAgent(SAMSUNG_ANDROID).browser, { name: 'Samsung Internet', version: '25.0' });
+    assert.deepEqual(parseUserAgent(FIREFOX_LINUX), {
+      browser: { name: 'Firefox', version: '127.0' },
+      os: { name: 'Linux' },
+      device: { type: 'desktop' },
+    });
+  });
+
+  it('tells Android phones from tablets', () => {
+    assert.deepEqual(parseUserAgent(SAMSUNG_ANDROID).os, { name: 'Android', version: '14' });
+    assert.equal(parseUserAgent(SAMSUNG_ANDROID).device.type, 'mobile');
+    assert.equal(parseUserAgent(CHROME_ANDROID_TABLET).device.type, 'tablet');
+  });
+
+  it('leaves unrecognised user agents undefined', () => {
+    assert.deepEqual(parseUserAgent('MyApp/1.0'), { browser: {}, os: {}, device: { type: undefined } });
+  });
+});
+
+describe('enrichUserAgent', () => {
+  it('fills browser, OS and device type missing from the context', () => {
+    assert.deepEqual(enrichUserAgent({ userAgent: SAFARI_IPHONE, device: { model: 'iPhone15,2' } }), {
+      userAgent: SAFARI_IPHONE,
+      browser: { name: 'Safari', version: '17.5' },
+      os: { name: 'iOS', version: '17.5' },
+      device: { model: 'iPhone15,2', type: 'mobile' },
+    });
+  });
+
+  it('keeps values sent by the client', () => {
+    const context = {
+      userAgent: CHROME_MAC,
+      browser: { name: 'Arc', version: '1.50' },
+      os: { name: 'macOS', version: '14.5' },
+      device: { type: 'tablet' },
+    };
+
+    assert.deepEqual(enrichUserAgent(context), context);
+  });
+
+  it('is applied by flattenEvent only when parseUserAgent is set', () => {
+    const event = { type: 'page' as const, anonymousId: 'anon-1', context: { userAgent: CHROME_MAC } };
+
+    assert.equal(flattenEvent(event, '2026-01-01T00:00:00.000Z').context?.browser, undefined);
+    assert.deepEqual(
+      flattenEvent(event, '2026-01-01T00:00:00.000Z', { parseUserAgent: true }).context?.browser,
+      { name: 'Chrome', version: '126.0.0.0' }
+    );
+  });
+});
+
+describe('isBotUserAgent', () => {
+  it('detects crawlers, headless browsers and scripts', () => {
+    for (const ua of [
+      'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+      'Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)',
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/126.0.0.0 Safari/537.36',
+      'Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Mobile Safari/537.36 Chrome-Lighthouse',
+      'facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)',
+      'python-requests/2.31.0',
+      'curl/8.4.0',
+    ]) {
+      assert.equal(isBotUserAgent(ua), true, ua);
+    }
+  });
+
+  it('does not flag regular browsers', () => {
+    assert.equal(isBotUserAgent(CHROME_MAC), false);
+    assert.equal(isBotUserAgent(SAFARI_IPHONE), false);
+  });
+});
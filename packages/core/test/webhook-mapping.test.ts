@@ -0,0 +1,128 @@
+/**
+ * Tests for webhook payload mappings
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  mapWebhookPayload,
+  readPayloadPath,
+  validateWebhookMapping,
+  type WebhookMapping,
+} from '../src/webhook-mapping.js';
+
+const mapping: WebhookMapping = {
+  typePath: '$.type',
+  events: {
+    'invoice.paid': {
+      event: 'Invoice Paid',
+      userId: '$.data.object.customer',
+      messageId: '$.id',
+      timestamp: { path: '$.created', transform: 'unix_seconds' },
+      properties: {
+        revenue: { path: '$.data.object.amount_paid', transform: 'cents', currency: '$.data.object.currency' },
+        currency: '$.data.object.currency',
+        price_id: '$.data.object.lines.data.0.price.id',
+        coupon: '$.data.object.discount.coupon.id',
+      },
+    },
+  },
+};
+
+const invoicePaid = {
+  id: 'evt_1',
+  type: 'invoice.paid',
+  created: 1735689600,
+  data: {
+    object: {
+      customer: 'cus_123',
+      amount_paid: 4900,
+      currency: 'usd',
+      discount: null,
+      lines: { data: [{ price: { id: 'price_pro' } }] },
+    },
+  },
+};
+
+describe('readPayloadPath', () => {
+  it('reads nested fields and array items', () => {
+    assert.equal(readPayloadPath(invoicePaid, '$.data.object.customer'), 'cus_123');
+    assert.equal(readPayloadPath(invoicePaid, '$.data.object.lines.data.0.price.id'), 'price_pro');
+  });
+
+  it('returns undefined for missing segments', () => {
+    assert.equal(readPayloadPath(invoicePaid, '$.data.object.discount.coupon'), undefined);
+    assert.equal(readPayloadPath(invoicePaid, '$.data.missing.id'), undefined);
+  });
+});
+
+describe('mapWebhookPayload', () => {
+  it('maps a payload to a track event', () => {
+    assert.deepEqual(mapWebhookPayload(invoicePaid, mapping), {
+      type: 'track',
+      event: 'Invoice Paid',
+      userId: 'cus_123',
+      messageId: 'evt_1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      properties: { revenue: 49, currency: 'usd', price_id: 'price_pro' },
+      context: { webhook: { type: 'invoice.paid' } },
+    });
+  });
+
+  it('keeps amounts in zero-decimal currencies as they are', () => {
+    const yen = { ...invoicePaid, data: { object: { ...invoicePaid.data.object, amount_paid: 4900, currency: 'jpy' } } };
+    assert.equal(mapWebhookPayload(yen, mapping)?.properties?.revenue, 4900);
+  });
+
+  it('leaves the identity empty when the payload has no user', () => {
+    const guest = { ...invoicePaid, data: { object: { ...invoicePaid.data.object, customer: null } } };
+    const event = mapWebhookPayload(guest, mapping);
+
+    assert.equal(event?.userId, undefined);
+    assert.equal(event?.anonymousId, undefined);
+    assert.deepEqual(event?.context, { webhook: { type: 'invoice.paid' } });
+  });
+
+  it('returns null for unmapped types', () => {
+    assert.equal(mapWebhookPayload({ ...invoicePaid, type: 'customer.created' }, mapping), null);
+  });
+
+  it('uses an explicit type and the * fallback', () => {
+    const fallback: WebhookMapping = {
+      events: { '*': { event: 'Webhook Received', userId: '$.sender' } },
+    };
+
+    assert.deepEqual(mapWebhookPayload({ sender: 'octocat' }, fallback, 'star.created'), {
+      type: 'track',
+      event: 'Webhook Received',
+      userId: 'octocat',
+      properties: {},
+      context: { webhook: { type: 'star.created' } },
+    });
+  });
+});
+
+describe('validateWebhookMapping', () => {
+  it('accepts a valid mapping', () => {
+    assert.deepEqual(validateWebhookMapping(mapping), { valid: true, errors: [] });
+  });
+
+  it('reports malformed paths, transforms and event names', () => {
+    const result = validateWebhookMapping({
+      typePath: 'type',
+      events: {
+        'order.created': {
+          event: '',
+          userId: 'data.user',
+          properties: { total: { path: '$.total', transform: 'dollars' } },
+        },
+      },
+    });
+
+    assert.equal(result.valid, false);
+    assert.equal(result.errors.length, 4);
+  });
+});
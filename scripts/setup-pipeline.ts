@@ -1126,7 +1126,7 @@ async function main() {
     const migrationsPath = join(__dirname, '..', 'workers', 'query-api', 'migrations');
     if (existsSync(migrationsPath)) {
       // Apply each migration file in order
-      const migrationFiles = ['0000_create_dashboards.sql', '0001_seed_default.sql'];
+      const migrationFiles = ['0000_create_dashboards.sql', '0001_seed_default.sql', '0002_create_identity_map.sql'];
       for (const migrationFile of migrationFiles) {
         const migrationPath = join(migrationsPath, migrationFile);
         if (existsSync(migrationPath)) {
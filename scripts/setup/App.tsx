@@ -40,6 +40,7 @@ const initialResources: ExistingResources = {
   pipeline: { exists: false, id: null },
   kvCache: { exists: false, id: null, previewId: null },
   d1Database: { exists: false, id: null },
+  ingestDatabase: { exists: false, id: null },
 };
 
 const initialContext: SetupContext = {
@@ -51,6 +52,7 @@ const initialContext: SetupContext = {
     pipelineName: '',
     kvCacheName: '',
     d1DatabaseName: '',
+    ingestDatabaseName: '',
   },
   authInfo: { authenticated: false },
   apiToken: '',
@@ -10,6 +10,7 @@ import { Confirm } from '../../shared/components/Confirm.js';
 import type { Config, AuthInfo, ExistingResources, DeployedUrls } from '../core/types.js';
 import {
   createEventIngestLocalConfig,
+  runEventIngestMigrations,
   deployEventIngest,
   checkEventIngestDeployedAsync,
 } from '../steps/event-ingest.js';
@@ -134,12 +135,22 @@ export function DeploymentPhase({
 
     // Deploy
     updateWorkerState('event-ingest', { status: 'deploying' });
-    const configSuccess = createEventIngestLocalConfig(projectName, streamId);
+    const currentConfig = configRef.current;
+    const currentResources = resourcesRef.current;
+    const configSuccess = createEventIngestLocalConfig(projectName, streamId, {
+      d1DatabaseId: currentResources.ingestDatabase.id,
+      d1DatabaseName: currentConfig.ingestDatabaseName,
+    });
     if (!configSuccess) {
       updateWorkerState('event-ingest', { status: 'error', message: 'Failed to create config' });
       return true;
     }
 
+    // Run source registry migrations
+    if (currentResources.ingestDatabase.id) {
+      await runEventIngestMigrations(currentConfig.ingestDatabaseName);
+    }
+
     const result = await deployEventIngest();
     if (result.success) {
       updateWorkerState('event-ingest', { status: 'success', url: result.url });
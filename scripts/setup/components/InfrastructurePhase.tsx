@@ -77,6 +77,7 @@ export function InfrastructurePhase({
           existing.pipeline.exists,
           existing.kvCache.exists,
           existing.d1Database.exists,
+          existing.ingestDatabase.exists,
         ].filter(Boolean).length;
         setExistingCount(count);
 
@@ -315,5 +316,19 @@ function buildInfrastructureTasks(
     },
   });
 
+  tasks.push({
+    key: 'ingest-database',
+    title: `Create ${config.ingestDatabaseName}`,
+    group: 'cache',
+    skip: () => (!needs.needsIngestDatabase ? 'Already exists' : false),
+    task: async (ctx: InfrastructureContext) => {
+      const result = await createD1Database(ctx.config.ingestDatabaseName);
+      if (result.success && result.id) {
+        ctx.resources.ingestDatabase.exists = true;
+        ctx.resources.ingestDatabase.id = result.id;
+      }
+    },
+  });
+
   return tasks;
 }
@@ -12,6 +12,7 @@ export interface Config {
   pipelineName: string;
   kvCacheName: string;
   d1DatabaseName: string;
+  ingestDatabaseName: string;
 }
 
 /**
@@ -35,6 +36,7 @@ export interface ExistingResources {
   pipeline: { exists: boolean; id: string | null };
   kvCache: { exists: boolean; id: string | null; previewId: string | null };
   d1Database: { exists: boolean; id: string | null };
+  ingestDatabase: { exists: boolean; id: string | null };
 }
 
 /**
@@ -32,6 +32,7 @@ export function deriveConfig(projectName: string): Config {
     pipelineName: `${underscoreName}_events_pipeline`,
     kvCacheName: `${projectName}-query-cache`,
     d1DatabaseName: `${projectName}-dashboards`,
+    ingestDatabaseName: `${projectName}-ingest`,
   };
 }
 
@@ -73,6 +74,7 @@ export function getConfigDisplayLines(config: Config, projectName?: string): str
     `${config.pipelineName.padEnd(30)} (Pipeline)`,
     `${config.kvCacheName.padEnd(30)} (KV Namespace)`,
     `${config.d1DatabaseName.padEnd(30)} (D1 Database)`,
+    `${config.ingestDatabaseName.padEnd(30)} (D1 Database)`,
   ];
 
   if (projectName) {
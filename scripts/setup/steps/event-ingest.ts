@@ -4,10 +4,11 @@
 
 import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
-import type { DeployedUrls } from '../core/types.js';
+import type { DeployedUrls, LocalConfigOptions } from '../core/types.js';
 import {
   getWorkersPath,
   parseJsonc,
+  runCommandAsync,
   runCommandWithOutputAsync,
   extractWorkerUrl,
   checkWorkerDeployedAsync,
@@ -30,13 +31,18 @@ function getPaths() {
   return {
     basePath: join(workerPath, 'wrangler.jsonc'),
     localPath: join(workerPath, 'wrangler.local.jsonc'),
+    migrationsPath: join(workerPath, 'migrations'),
   };
 }
 
 /**
  * Create wrangler.local.jsonc for event-ingest worker
  */
-export function createEventIngestLocalConfig(projectName: string, streamId: string): boolean {
+export function createEventIngestLocalConfig(
+  projectName: string,
+  streamId: string,
+  options: LocalConfigOptions = {}
+): boolean {
   const { basePath, localPath } = getPaths();
 
   if (!existsSync(basePath)) {
@@ -58,6 +64,17 @@ export function createEventIngestLocalConfig(projectName: string, streamId: stri
       },
     ];
 
+    // Add D1 database binding for the source registry if ID is provided
+    if (options.d1DatabaseId && options.d1DatabaseName) {
+      config.d1_databases = [
+        {
+          binding: 'DB',
+          database_name: options.d1DatabaseName,
+          database_id: options.d1DatabaseId,
+        },
+      ];
+    }
+
     // Write local config with comment header
     const localContent = `// Local wrangler config - DO NOT COMMIT
 // Generated by: pnpm launch
@@ -72,6 +89,24 @@ ${JSON.stringify(config, null, 2)}
   }
 }
 
+/**
+ * Apply pending event-ingest D1 migrations (async for spinner animation)
+ *
+ * Uses wrangler's migration tracking (d1_migrations table) because some
+ * migrations alter existing tables and cannot simply be re-run.
+ */
+export async function runEventIngestMigrations(databaseName: string): Promise<boolean> {
+  const { localPath, migrationsPath } = getPaths();
+
+  if (!existsSync(migrationsPath) || !existsSync(localPath)) {
+    return false;
+  }
+
+  return runCommandAsync(
+    `wrangler d1 migrations apply "${databaseName}" --remote --config "${localPath}"`
+  );
+}
+
 /**
  * Deploy event-ingest worker (async for spinner animation)
  */
@@ -106,12 +141,13 @@ export async function checkEventIngestDeployedAsync(projectName: string, subdoma
 export async function setupEventIngest(
   projectName: string,
   streamId: string,
+  options: LocalConfigOptions,
   deployedUrls: DeployedUrls,
   skipPrompts = false,
   subdomain?: string
 ): Promise<{ success: boolean; url?: string }> {
   // Create local config
-  if (!createEventIngestLocalConfig(projectName, streamId)) {
+  if (!createEventIngestLocalConfig(projectName, streamId, options)) {
     return { success: false };
   }
 
@@ -127,6 +163,11 @@ export async function setupEventIngest(
   }
 
   if (shouldDeploy) {
+    // Run migrations if D1 database exists (only when deploying)
+    if (options.d1DatabaseId && options.d1DatabaseName) {
+      await runEventIngestMigrations(options.d1DatabaseName);
+    }
+
     const workerName = getEventIngestWorkerName(projectName);
     const result = await deployEventIngest();
     if (result.success) {
@@ -180,5 +180,15 @@ export async function createInfrastructure(
     }
   }
 
+  // Create the event-ingest D1 database if needed
+  if (!resources.ingestDatabase.exists) {
+    const result = await createD1Database(config.ingestDatabaseName);
+    report('ingestDatabase', result.success);
+    if (result.success && result.id) {
+      updated.ingestDatabase.exists = true;
+      updated.ingestDatabase.id = result.id;
+    }
+  }
+
   return updated;
 }
@@ -109,7 +109,7 @@ export async function runMigrations(databaseName: string): Promise<{ success: bo
     return { success: false, applied };
   }
 
-  const migrationFiles = ['0000_create_dashboards.sql', '0001_seed_default.sql'];
+  const migrationFiles = ['0000_create_dashboards.sql', '0001_seed_default.sql', '0002_create_identity_map.sql'];
 
   for (const file of migrationFiles) {
     const migrationPath = join(migrationsPath, file);
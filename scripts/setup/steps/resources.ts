@@ -17,6 +17,7 @@ export async function checkExistingResources(config: Config): Promise<ExistingRe
     pipeline: { exists: false, id: null },
     kvCache: { exists: false, id: null, previewId: null },
     d1Database: { exists: false, id: null },
+    ingestDatabase: { exists: false, id: null },
   };
 
   // Check R2 bucket
@@ -116,15 +117,18 @@ export async function checkExistingResources(config: Config): Promise<ExistingRe
   const d1Output = await runQuietAsync('wrangler d1 list');
   if (d1Output) {
     const lines = d1Output.split('\n');
-    for (const line of lines) {
-      if (line.includes(config.d1DatabaseName)) {
-        resources.d1Database.exists = true;
+    for (const [name, database] of [
+      [config.d1DatabaseName, resources.d1Database],
+      [config.ingestDatabaseName, resources.ingestDatabase],
+    ] as const) {
+      const line = lines.find(l => l.includes(name));
+      if (line) {
+        database.exists = true;
         // D1 database IDs are UUIDs
         const idMatch = line.match(/([a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})/i);
         if (idMatch) {
-          resources.d1Database.id = idMatch[1];
+          database.id = idMatch[1];
         }
-        break;
       }
     }
   }
@@ -144,6 +148,7 @@ export function getResourcesNeeded(resources: ExistingResources): {
   needsKvCache: boolean;
   needsKvCachePreview: boolean;
   needsD1Database: boolean;
+  needsIngestDatabase: boolean;
   allExist: boolean;
 } {
   const needsBucket = !resources.bucket;
@@ -154,6 +159,7 @@ export function getResourcesNeeded(resources: ExistingResources): {
   const needsKvCache = !resources.kvCache.exists;
   const needsKvCachePreview = !resources.kvCache.previewId;
   const needsD1Database = !resources.d1Database.exists;
+  const needsIngestDatabase = !resources.ingestDatabase.exists;
 
   const allExist =
     !needsBucket &&
@@ -163,7 +169,8 @@ export function getResourcesNeeded(resources: ExistingResources): {
     !needsPipeline &&
     !needsKvCache &&
     !needsKvCachePreview &&
-    !needsD1Database;
+    !needsD1Database &&
+    !needsIngestDatabase;
 
   return {
     needsBucket,
@@ -174,6 +181,7 @@ export function getResourcesNeeded(resources: ExistingResources): {
     needsKvCache,
     needsKvCachePreview,
     needsD1Database,
+    needsIngestDatabase,
     allExist,
   };
 }
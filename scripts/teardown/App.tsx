@@ -55,6 +55,7 @@ export function TeardownApp({ cliOptions }: TeardownAppProps): React.ReactElemen
           kvCacheId: null,
           kvCachePreviewId: null,
           d1DatabaseId: null,
+          ingestDatabaseId: null,
           existingWorkers: new Set(),
         },
         options: cliOptions,
@@ -67,6 +68,7 @@ export function TeardownApp({ cliOptions }: TeardownAppProps): React.ReactElemen
           kvCache: false,
           kvCachePreview: false,
           d1Database: false,
+          ingestDatabase: false,
           bucket: false,
           localConfigs: [],
         },
@@ -41,6 +41,7 @@ export function ConfirmPrompt({
         <Text color="gray">• {config.streamName}</Text>
         <Text color="gray">• {config.kvCacheName}</Text>
         <Text color="gray">• {config.d1DatabaseName}</Text>
+        <Text color="gray">• {config.ingestDatabaseName}</Text>
         {!options.keepBucket ? (
           <Text color="red">• {config.bucketName} (and ALL data!)</Text>
         ) : (
@@ -72,6 +72,7 @@ export function DeletionPhase({
     kvCache: false,
     kvCachePreview: false,
     d1Database: false,
+    ingestDatabase: false,
     bucket: false,
     localConfigs: [],
   });
@@ -106,6 +107,7 @@ export function DeletionPhase({
         if (ids.kvCacheId) count++;
         if (ids.kvCachePreviewId) count++;
         if (ids.d1DatabaseId) count++;
+        if (ids.ingestDatabaseId) count++;
         count += ids.containerIds.size;
         count += ids.existingWorkers.size;
         setFoundCount(count);
@@ -344,6 +346,21 @@ function buildDeletionTasks(
     },
   });
 
+  tasks.push({
+    key: 'ingest-database',
+    title: `Delete ${config.ingestDatabaseName}`,
+    group: 'storage',
+    skip: (ctx: DeletionContext) => (!ctx.resourceIds.ingestDatabaseId ? 'Not found' : false),
+    task: async (ctx: DeletionContext) => {
+      if (ctx.resourceIds.ingestDatabaseId) {
+        const result = await deleteD1Database(config.ingestDatabaseName);
+        if (result.success && !result.notFound) {
+          ctx.updateDeleted(() => ({ ingestDatabase: true }));
+        }
+      }
+    },
+  });
+
   // Bucket deletion (group: storage)
   tasks.push({
     key: 'bucket',
@@ -111,6 +111,12 @@ export function TeardownSummary({
               <Text>Deleted D1 database</Text>
             </Box>
           )}
+          {deletedResources.ingestDatabase && (
+            <Box>
+              <Text color="green">✓ </Text>
+              <Text>Deleted event-ingest D1 database</Text>
+            </Box>
+          )}
 
           {/* Bucket */}
           {!options.keepBucket ? (
@@ -18,6 +18,7 @@ export interface ResourceIds {
   kvCacheId: string | null;
   kvCachePreviewId: string | null;
   d1DatabaseId: string | null;
+  ingestDatabaseId: string | null;
   existingWorkers: Set<string>;
 }
 
@@ -41,6 +42,7 @@ export interface DeletedResources {
   kvCache: boolean;
   kvCachePreview: boolean;
   d1Database: boolean;
+  ingestDatabase: boolean;
   bucket: boolean;
   localConfigs: string[];
 }
@@ -17,6 +17,7 @@ export function createEmptyResourceIds(): ResourceIds {
     kvCacheId: null,
     kvCachePreviewId: null,
     d1DatabaseId: null,
+    ingestDatabaseId: null,
     existingWorkers: new Set(),
   };
 }
@@ -204,7 +205,7 @@ export async function lookupAllResourceIds(
   const ids = createEmptyResourceIds();
 
   // Run all lookups in parallel for speed
-  const [containerIds, existingWorkers, streamId, sinkId, pipelineId, kvIds, d1Id] = await Promise.all([
+  const [containerIds, existingWorkers, streamId, sinkId, pipelineId, kvIds, d1Id, ingestD1Id] = await Promise.all([
     lookupContainerIds(containerNames),
     lookupExistingWorkers(workerNames),
     lookupStreamId(config.streamName),
@@ -212,6 +213,7 @@ export async function lookupAllResourceIds(
     lookupPipelineId(config.pipelineName),
     lookupKvIds(config.kvCacheName),
     lookupD1Id(config.d1DatabaseName),
+    lookupD1Id(config.ingestDatabaseName),
   ]);
 
   ids.containerIds = containerIds;
@@ -222,6 +224,7 @@ export async function lookupAllResourceIds(
   ids.kvCacheId = kvIds.id;
   ids.kvCachePreviewId = kvIds.previewId;
   ids.d1DatabaseId = d1Id;
+  ids.ingestDatabaseId = ingestD1Id;
 
   return ids;
 }
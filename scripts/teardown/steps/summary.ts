@@ -34,6 +34,7 @@ export function displayResourcesToDelete(
   log(`    ${symbols.bullet} Stream:      ${config.streamName}`);
   log(`    ${symbols.bullet} KV Cache:    ${config.kvCacheName}`);
   log(`    ${symbols.bullet} D1 Database: ${config.d1DatabaseName}`);
+  log(`    ${symbols.bullet} D1 Database: ${config.ingestDatabaseName}`);
 
   if (!options.keepBucket) {
     log(`    ${symbols.bullet} Bucket:      ${config.bucketName} ${c.error('(and ALL data!)')}`);
@@ -103,6 +104,9 @@ export function displayTeardownSummary(
   if (deleted.d1Database) {
     log(`    ${symbols.success} Deleted D1 database`);
   }
+  if (deleted.ingestDatabase) {
+    log(`    ${symbols.success} Deleted event-ingest D1 database`);
+  }
 
   // Bucket
   if (!options.keepBucket) {
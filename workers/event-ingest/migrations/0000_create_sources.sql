@@ -0,0 +1,12 @@
+-- Create sources table for per-source write keys
+CREATE TABLE IF NOT EXISTS sources (
+  id TEXT PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL,
+  write_key_hash TEXT NOT NULL UNIQUE,
+  write_key_prefix TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  last_used_at TEXT,
+  revoked_at TEXT
+);
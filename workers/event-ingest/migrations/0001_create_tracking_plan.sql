@@ -0,0 +1,25 @@
+-- Per-source tracking plan enforcement mode: allow, warn or block
+ALTER TABLE sources ADD COLUMN tracking_plan_mode TEXT NOT NULL DEFAULT 'allow';
+
+-- Tracking plan: allowed events and the JSON Schema for their properties/traits
+CREATE TABLE IF NOT EXISTS tracking_plan_entries (
+  id TEXT PRIMARY KEY NOT NULL,
+  event_type TEXT NOT NULL,
+  event_name TEXT NOT NULL DEFAULT '',
+  description TEXT,
+  schema TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tracking_plan_event ON tracking_plan_entries (event_type, event_name);
+
+-- Daily ingest counters (tracking plan violations, etc.)
+CREATE TABLE IF NOT EXISTS ingest_metrics (
+  day TEXT NOT NULL,
+  source_id TEXT NOT NULL DEFAULT '',
+  metric TEXT NOT NULL,
+  label TEXT NOT NULL DEFAULT '',
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, source_id, metric, label)
+);
@@ -0,0 +1,2 @@
+-- Per-source handling of bot traffic: off, tag (context.bot = true) or drop
+ALTER TABLE sources ADD COLUMN bot_mode TEXT NOT NULL DEFAULT 'tag';
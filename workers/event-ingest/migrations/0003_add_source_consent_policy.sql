@@ -0,0 +1,2 @@
+-- Per-source consent policy (JSON ConsentPolicy); NULL means consent is not enforced
+ALTER TABLE sources ADD COLUMN consent_policy TEXT;
@@ -0,0 +1,12 @@
+-- Ordered event transformation rules, applied at ingest before events are flattened
+CREATE TABLE IF NOT EXISTS transformation_rules (
+  id TEXT PRIMARY KEY NOT NULL,
+  position INTEGER NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 0,
+  description TEXT,
+  rule TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transformation_rules_position ON transformation_rules (position);
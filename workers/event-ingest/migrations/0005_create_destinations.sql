@@ -0,0 +1,27 @@
+-- Downstream HTTP destinations that accepted events are forwarded to
+CREATE TABLE IF NOT EXISTS destinations (
+  id TEXT PRIMARY KEY NOT NULL,
+  name TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  auth TEXT,
+  filter TEXT,
+  template TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- One row per event sent (or given up on) per destination
+CREATE TABLE IF NOT EXISTS destination_deliveries (
+  id TEXT PRIMARY KEY NOT NULL,
+  destination_id TEXT NOT NULL,
+  message_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL,
+  response_status INTEGER,
+  error TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_destination_deliveries_destination ON destination_deliveries (destination_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_destination_deliveries_created ON destination_deliveries (created_at);
@@ -1,9 +1,24 @@
 import { createMiddleware } from 'hono/factory';
+import { bearerAuth } from 'hono/bearer-auth';
 import type { Context, MiddlewareHandler } from 'hono';
+import type { BodyResult, BodyVariables } from './body.js';
+import type { Source } from './db/schema.js';
+import type { SourceResolver } from './sources/store.js';
 
 export interface AuthConfig {
   enabled: boolean;
+  /** Legacy shared token accepted alongside registered source write keys */
   token?: string;
+  /** Source registry used to resolve per-source write keys */
+  sources?: SourceResolver;
+}
+
+/**
+ * Context variables set by the auth middleware
+ */
+export interface AuthVariables {
+  /** Source resolved from the write key (null for the legacy shared token or no auth) */
+  source: Source | null;
 }
 
 /**
@@ -12,6 +27,13 @@ export interface AuthConfig {
  * - Authorization: Bearer <token>
  * - Authorization: Basic <base64> (write key in username, for RudderStack/Segment)
  * - X-API-Key: <token>
+ * - ?writeKey=<token> query parameter
+ * - ?api_secret=<token> query parameter (GA4 Measurement Protocol)
+ * - "writeKey" field in the JSON body (read by the body middleware)
+ * - Amplitude's "api_key" and Mixpanel's project token in the body
+ *
+ * Body and query keys cover navigator.sendBeacon, which cannot set headers,
+ * and Mixpanel/Amplitude clients, which only send their project key.
  */
 export function extractToken(c: Context): string | null {
   const authHeader = c.req.header('Authorization');
@@ -40,44 +62,121 @@ export function extractToken(c: Context): string | null {
     return apiKey;
   }
 
-  return null;
+  // Query parameter (analytics.js style, or GA4's api_secret)
+  const queryKey = c.req.query('writeKey') || c.req.query('api_secret');
+  if (queryKey) {
+    return queryKey;
+  }
+
+  // Body field
+  const body = c.get('body') as BodyResult | undefined;
+  return body?.success ? extractBodyToken(body.data) : null;
 }
 
 /**
- * Create auth middleware for Hono
+ * Read a write key from a parsed body: `writeKey`, Amplitude's `api_key`, or
+ * the token of the first Mixpanel event (`properties.token`) or profile update (`$token`)
  */
-export function authMiddleware(getConfig: (c: Context) => AuthConfig): MiddlewareHandler {
-  return createMiddleware(async (c, next) => {
-    const config = getConfig(c);
+function extractBodyToken(data: unknown): string | null {
+  const record = (Array.isArray(data) ? data[0] : data) as Record<string, unknown> | null | undefined;
+  if (!record || typeof record !== 'object') {
+    return null;
+  }
 
-    if (!config.enabled) {
-      await next();
-      return;
-    }
+  const properties = record.properties as Record<string, unknown> | null | undefined;
+  const candidates = Array.isArray(data)
+    ? [record.$token, properties?.token]
+    : [record.writeKey, record.api_key, record.$token, properties?.token];
 
-    if (!config.token) {
-      return c.json(
-        { success: false, message: 'Authentication is enabled but no token is configured' },
-        500
-      );
+  const token = candidates.find(value => typeof value === 'string' && value);
+  return (token as string | undefined) ?? null;
+}
+
+/**
+ * Why a request was not authenticated
+ */
+export interface AuthFailure {
+  status: 401 | 403 | 500;
+  message: string;
+}
+
+/**
+ * Authenticate a request and set the `source` variable
+ *
+ * Write keys are resolved against the source registry first, then compared
+ * with the legacy shared token. When auth is disabled, a write key that
+ * matches an enabled source is still used to attribute events.
+ *
+ * Returns null when the request may proceed.
+ */
+export async function authenticate(c: Context, config: AuthConfig): Promise<AuthFailure | null> {
+  const token = extractToken(c);
+  c.set('source', null);
+
+  const source = token && config.sources ? await config.sources.findByWriteKey(token) : null;
+
+  if (source && source.enabled) {
+    c.set('source', source);
+    c.executionCtx.waitUntil(
+      config.sources!.touch(source).catch((err: Error) => {
+        console.error('[auth] Failed to update source last_used_at:', err.message);
+      })
+    );
+  }
+
+  if (!config.enabled) {
+    return null;
+  }
+
+  if (!config.token && !config.sources) {
+    return { status: 500, message: 'Authentication is enabled but no token is configured' };
+  }
+
+  if (!token) {
+    return { status: 401, message: 'Missing authentication token' };
+  }
+
+  if (source) {
+    if (!source.enabled) {
+      return { status: 403, message: 'Source is disabled' };
     }
+  } else if (!config.token || token !== config.token) {
+    return { status: 401, message: 'Invalid authentication token' };
+  }
 
-    const token = extractToken(c);
+  return null;
+}
 
-    if (!token) {
-      return c.json(
-        { success: false, message: 'Missing authentication token' },
-        401
-      );
+/**
+ * Create auth middleware for Hono (see authenticate)
+ */
+export function authMiddleware(
+  getConfig: (c: Context) => AuthConfig
+): MiddlewareHandler<{ Variables: AuthVariables & BodyVariables }> {
+  return createMiddleware<{ Variables: AuthVariables & BodyVariables }>(async (c, next) => {
+    const failure = await authenticate(c, getConfig(c));
+    if (failure) {
+      return c.json({ success: false, message: failure.message }, failure.status);
     }
 
-    if (token !== config.token) {
+    await next();
+  });
+}
+
+/**
+ * Create auth middleware for admin routes (Bearer ADMIN_TOKEN)
+ */
+export function adminAuthMiddleware(getToken: (c: Context) => string | undefined): MiddlewareHandler {
+  return createMiddleware(async (c, next) => {
+    const token = getToken(c);
+
+    if (!token) {
       return c.json(
-        { success: false, message: 'Invalid authentication token' },
-        401
+        { success: false, message: 'Admin API is disabled (ADMIN_TOKEN not configured)' },
+        403
       );
     }
 
-    await next();
+    return bearerAuth({ token })(c, next);
   });
 }
@@ -2,22 +2,119 @@ import {
   type AnalyticsEvent,
   type AnalyticsBatch,
   type FlattenedEvent,
+  type FlattenOptions,
+  type TimestampCheckResult,
+  type TimestampPolicy,
+  type TimestampPolicyAction,
+  type TransformRule,
   validateEvent,
   validateBatch,
   flattenEvent,
   generateMessageId,
+  applyTimestampPolicy,
+  applyTransformRules,
 } from '@icelight/core';
 
+/**
+ * How /v1/batch handles invalid events
+ * - strict: reject the whole batch if any event is invalid (default)
+ * - partial: send valid events and report invalid ones in `rejected`
+ */
+export type BatchMode = 'strict' | 'partial';
+
+export interface RejectedEvent {
+  /** Index of the event in the request's batch array */
+  index: number;
+  errors: string[];
+}
+
 export interface BatchResult {
   success: boolean;
   events: FlattenedEvent[];
   errors: string[];
+  /** Events dropped in partial mode */
+  rejected?: RejectedEvent[];
+  /** Valid events dropped by transformation rules */
+  dropped?: number;
+}
+
+export interface ProcessEventOptions extends FlattenOptions {
+  /** Limits applied to (corrected) event timestamps */
+  timestampPolicy?: TimestampPolicy;
+  /** Transformation rules applied to valid events before flattening */
+  transformRules?: TransformRule[];
+  /** Require a userId or anonymousId (default: true) */
+  requireIdentity?: boolean;
+}
+
+export interface ProcessBatchOptions extends ProcessEventOptions {
+  mode?: BatchMode;
+}
+
+/** Default limit for timestamps ahead of received_at: 1 day */
+export const DEFAULT_MAX_TIMESTAMP_FUTURE_SECONDS = 86400;
+
+/** Default limit for timestamps before received_at on live routes: 30 days */
+export const DEFAULT_MAX_TIMESTAMP_AGE_DAYS = 30;
+
+/**
+ * Parse a BATCH_MODE value, falling back to strict
+ */
+export function parseBatchMode(value: string | undefined): BatchMode {
+  return value === 'partial' ? 'partial' : 'strict';
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Build a timestamp policy from TIMESTAMP_POLICY, MAX_TIMESTAMP_FUTURE_SECONDS
+ * and MAX_TIMESTAMP_AGE_DAYS values
+ * Out-of-range timestamps are accepted unless a policy is set, since SDKs
+ * flushing an offline queue legitimately send old events (and in strict batch
+ * mode one rejected event fails the whole batch). Imports have no age limit,
+ * since backfills are expected to be old.
+ */
+export function parseTimestampPolicy(
+  action: string | undefined,
+  maxFutureSeconds: string | undefined,
+  maxAgeDays: string | undefined,
+  isImport = false
+): TimestampPolicy {
+  const actions: TimestampPolicyAction[] = ['reject', 'clamp', 'accept'];
+
+  return {
+    action: actions.includes(action as TimestampPolicyAction) ? (action as TimestampPolicyAction) : 'accept',
+    maxFutureSeconds: parsePositiveInt(maxFutureSeconds, DEFAULT_MAX_TIMESTAMP_FUTURE_SECONDS),
+    maxAgeSeconds: isImport ? null : parsePositiveInt(maxAgeDays, DEFAULT_MAX_TIMESTAMP_AGE_DAYS) * 86400,
+  };
+}
+
+/**
+ * Apply the timestamp policy, if any, to a flattened event
+ */
+function checkTimestamp(event: FlattenedEvent, policy: TimestampPolicy | undefined): TimestampCheckResult {
+  return policy ? applyTimestampPolicy(event, policy) : { event };
+}
+
+/**
+ * Apply the transformation rules, if any, to a validated event
+ * Returns null if a rule dropped it
+ */
+function transformEvent(event: AnalyticsEvent, rules: TransformRule[] | undefined): AnalyticsEvent | null {
+  return rules?.length ? applyTransformRules(event, rules).event : event;
 }
 
 /**
  * Process a single event from a direct endpoint (track, identify, page, etc.)
  */
-export function processSingleEvent(data: unknown, eventType?: string): BatchResult {
+export function processSingleEvent(
+  data: unknown,
+  eventType?: string,
+  options: ProcessEventOptions = {}
+): BatchResult {
   if (!data || typeof data !== 'object') {
     return { success: false, events: [], errors: ['Request body must be a JSON object'] };
   }
@@ -34,26 +131,40 @@ export function processSingleEvent(data: unknown, eventType?: string): BatchResu
     event.messageId = generateMessageId();
   }
 
-  const validation = validateEvent(event);
+  const validation = validateEvent(event, options);
   if (!validation.valid) {
     return { success: false, events: [], errors: validation.errors };
   }
 
+  const transformed = transformEvent(event as unknown as AnalyticsEvent, options.transformRules);
+  if (!transformed) {
+    return { success: true, events: [], errors: [], dropped: 1 };
+  }
+
   const receivedAt = new Date().toISOString();
-  const flattened = flattenEvent(event as unknown as AnalyticsEvent, receivedAt);
+  const flattened = flattenEvent(transformed, receivedAt, options);
+
+  const checked = checkTimestamp(flattened, options.timestampPolicy);
+  if (!checked.event) {
+    return { success: false, events: [], errors: [checked.error!] };
+  }
 
-  return { success: true, events: [flattened], errors: [] };
+  return { success: true, events: [checked.event], errors: [] };
 }
 
 /**
  * Process a batch of events
  */
-export function processBatch(data: unknown): BatchResult {
+export function processBatch(data: unknown, options: ProcessBatchOptions = {}): BatchResult {
   if (!data || typeof data !== 'object') {
     return { success: false, events: [], errors: ['Request body must be a JSON object'] };
   }
 
-  const validation = validateBatch(data);
+  if (options.mode === 'partial') {
+    return processBatchPartial(data as Record<string, unknown>, options);
+  }
+
+  const validation = validateBatch(data, options);
   if (!validation.valid) {
     return { success: false, events: [], errors: validation.errors };
   }
@@ -61,15 +172,96 @@ export function processBatch(data: unknown): BatchResult {
   const batch = data as AnalyticsBatch;
   const receivedAt = new Date().toISOString();
 
-  const events = batch.batch.map(event => {
+  const events: FlattenedEvent[] = [];
+  const errors: string[] = [];
+  let dropped = 0;
+
+  batch.batch.forEach((event, index) => {
     // Generate messageId if not present
     if (!event.messageId) {
       event.messageId = generateMessageId();
     }
-    return flattenEvent(event, receivedAt);
+
+    // Segment SDKs send sentAt once for the whole batch
+    if (!event.sentAt && batch.sentAt) {
+      event.sentAt = batch.sentAt;
+    }
+
+    const transformed = transformEvent(event, options.transformRules);
+    if (!transformed) {
+      dropped++;
+      return;
+    }
+
+    const checked = checkTimestamp(flattenEvent(transformed, receivedAt, options), options.timestampPolicy);
+    if (checked.event) {
+      events.push(checked.event);
+    } else {
+      errors.push(`batch[${index}]: ${checked.error}`);
+    }
   });
 
-  return { success: true, events, errors: [] };
+  if (errors.length > 0) {
+    return { success: false, events: [], errors };
+  }
+
+  return { success: true, events, errors: [], dropped };
+}
+
+/**
+ * Process a batch, keeping valid events and reporting invalid ones by index
+ */
+function processBatchPartial(data: Record<string, unknown>, options: ProcessEventOptions): BatchResult {
+  if (!Array.isArray(data.batch)) {
+    return { success: false, events: [], errors: ['Batch must have a batch array'] };
+  }
+
+  if (data.batch.length === 0) {
+    return { success: false, events: [], errors: ['Batch cannot be empty'] };
+  }
+
+  const batch = data as Partial<AnalyticsBatch>;
+  const receivedAt = new Date().toISOString();
+  const events: FlattenedEvent[] = [];
+  const rejected: RejectedEvent[] = [];
+  let dropped = 0;
+
+  data.batch.forEach((item: unknown, index: number) => {
+    const validation = validateEvent(item, options);
+    if (!validation.valid) {
+      rejected.push({ index, errors: validation.errors });
+      return;
+    }
+
+    const event = item as AnalyticsEvent;
+    if (!event.messageId) {
+      event.messageId = generateMessageId();
+    }
+
+    // Segment SDKs send sentAt once for the whole batch
+    if (!event.sentAt && batch.sentAt) {
+      event.sentAt = batch.sentAt;
+    }
+
+    const transformed = transformEvent(event, options.transformRules);
+    if (!transformed) {
+      dropped++;
+      return;
+    }
+
+    const checked = checkTimestamp(flattenEvent(transformed, receivedAt, options), options.timestampPolicy);
+    if (checked.event) {
+      events.push(checked.event);
+    } else {
+      rejected.push({ index, errors: [checked.error!] });
+    }
+  });
+
+  if (events.length === 0 && dropped === 0) {
+    return { success: false, events, errors: ['No valid events in batch'], rejected };
+  }
+
+  return { success: true, events, errors: [], rejected, dropped };
 }
 
 /**
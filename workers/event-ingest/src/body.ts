@@ -0,0 +1,180 @@
+import { createMiddleware } from 'hono/factory';
+import type { Context, MiddlewareHandler } from 'hono';
+
+/** Default limit for the (decompressed) request body size: 5 MiB */
+export const DEFAULT_MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+type CompressionFormat = 'gzip' | 'deflate';
+
+export type BodyResult =
+  | { success: true; data: unknown }
+  | { success: false; status: 400 | 413 | 415; message: string };
+
+export type TextBodyResult =
+  | { success: true; text: string }
+  | { success: false; status: 400 | 413 | 415; message: string };
+
+/**
+ * Context variables set by the body middleware
+ */
+export interface BodyVariables {
+  /** Parsed request body (only set for POST requests) */
+  body: BodyResult;
+}
+
+/**
+ * Map a Content-Encoding header to a DecompressionStream format
+ * Returns null for uncompressed bodies and undefined for unsupported encodings
+ */
+function getCompressionFormat(encoding: string | undefined): CompressionFormat | null | undefined {
+  const value = encoding?.trim().toLowerCase();
+
+  if (!value || value === 'identity') return null;
+  if (value === 'gzip' || value === 'x-gzip') return 'gzip';
+  if (value === 'deflate') return 'deflate';
+
+  return undefined;
+}
+
+/**
+ * Parse a MAX_BODY_BYTES value, falling back to the default
+ */
+export function parseMaxBodyBytes(value: string | undefined): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_BODY_BYTES;
+}
+
+/**
+ * Read a request stream into memory, stopping as soon as it exceeds maxBytes
+ * Returns null if the limit was exceeded
+ */
+async function readLimited(stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array | null> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Read a request body as text
+ *
+ * Transparently decompresses gzip and deflate bodies (Content-Encoding).
+ * The limit applies to the decompressed size, so a small compressed
+ * payload cannot expand into more memory than maxBytes.
+ */
+export async function readTextBody(c: Context, maxBytes = DEFAULT_MAX_BODY_BYTES): Promise<TextBodyResult> {
+  const format = getCompressionFormat(c.req.header('Content-Encoding'));
+
+  if (format === undefined) {
+    return { success: false, status: 415, message: 'Unsupported Content-Encoding (use gzip or deflate)' };
+  }
+
+  const raw = c.req.raw.body;
+  if (!raw) {
+    return { success: false, status: 400, message: 'Invalid JSON body' };
+  }
+
+  let bytes: Uint8Array | null;
+  try {
+    const stream = format ? raw.pipeThrough(new DecompressionStream(format)) : raw;
+    bytes = await readLimited(stream, maxBytes);
+  } catch {
+    return { success: false, status: 400, message: format ? `Invalid ${format} body` : 'Invalid request body' };
+  }
+
+  if (!bytes) {
+    return { success: false, status: 413, message: `Request body exceeds ${maxBytes} bytes` };
+  }
+
+  return { success: true, text: new TextDecoder().decode(bytes) };
+}
+
+/**
+ * Read and parse a JSON request body (see readTextBody)
+ */
+export async function readJsonBody(c: Context, maxBytes = DEFAULT_MAX_BODY_BYTES): Promise<BodyResult> {
+  const body = await readTextBody(c, maxBytes);
+  return body.success ? parseJsonText(body.text, c.req.header('Content-Type')) : body;
+}
+
+/**
+ * Decode base64 or base64url JSON
+ * Spaces are read as `+`, since query strings and form bodies decode an
+ * unescaped `+` to a space (and base64 never contains spaces).
+ * Returns undefined if the value is not valid base64 JSON
+ */
+export function decodeBase64Json(value: string): unknown {
+  try {
+    const base64 = value.replace(/ /g, '+').replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a decoded body as JSON
+ *
+ * The Content-Type is not enforced: navigator.sendBeacon sends JSON as
+ * text/plain to avoid a CORS preflight. Form-encoded bodies may either be raw
+ * JSON or carry the JSON in a `data` field, as JSON or base64-encoded JSON
+ * (as older Mixpanel clients send it).
+ */
+function parseJsonText(text: string, contentType: string | undefined): BodyResult {
+  try {
+    return { success: true, data: JSON.parse(text) };
+  } catch {
+    // Fall through to form decoding
+  }
+
+  if (contentType?.toLowerCase().startsWith('application/x-www-form-urlencoded')) {
+    const data = new URLSearchParams(text).get('data');
+    if (data !== null) {
+      try {
+        return { success: true, data: JSON.parse(data) };
+      } catch {
+        const decoded = decodeBase64Json(data);
+        if (decoded !== undefined) {
+          return { success: true, data: decoded };
+        }
+      }
+    }
+  }
+
+  return { success: false, status: 400, message: 'Invalid JSON body' };
+}
+
+/**
+ * Create middleware that reads POST bodies before authentication,
+ * so a write key sent in the body can be used to authenticate
+ */
+export function bodyMiddleware(
+  getMaxBytes: (c: Context) => number
+): MiddlewareHandler<{ Variables: BodyVariables }> {
+  return createMiddleware<{ Variables: BodyVariables }>(async (c, next) => {
+    if (c.req.method === 'POST') {
+      c.set('body', await readJsonBody(c, getMaxBytes(c)));
+    }
+    await next();
+  });
+}
@@ -0,0 +1,172 @@
+import type { Context } from 'hono';
+import { isBotUserAgent, type FlattenedEvent } from '@icelight/core';
+
+/**
+ * How a source handles events from bots
+ * - off: do not check events
+ * - tag: keep events, setting context.bot = true
+ * - drop: discard events before they reach the pipeline
+ */
+export type BotMode = 'off' | 'tag' | 'drop';
+
+export type BotReason = 'user_agent' | 'bot_score' | 'ip_denylist';
+
+export const BOT_METRIC = 'bot.detected';
+
+/** Cloudflare bot scores below this are treated as automated (1 = certainly a bot) */
+export const DEFAULT_BOT_SCORE_THRESHOLD = 30;
+
+/**
+ * Bot signals derived from the incoming request
+ */
+export interface RequestBotSignals {
+  /** User-Agent header of the request */
+  userAgent?: string;
+  /** Client IP from CF-Connecting-IP */
+  connectingIp?: string;
+  /** request.cf.botManagement flags the client as automated */
+  lowScore: boolean;
+}
+
+export interface BotFilterResult {
+  events: FlattenedEvent[];
+  /** Events dropped in drop mode */
+  dropped: number;
+  /** Detected bot events per reason */
+  reasonCounts: Map<string, number>;
+}
+
+export interface IpDenylist {
+  exact: Set<string>;
+  ranges: Array<{ network: number; mask: number }>;
+}
+
+/**
+ * Parse a BOT_MODE value, falling back to tag
+ */
+export function parseBotMode(value: string | undefined): BotMode {
+  return value === 'off' || value === 'drop' ? value : 'tag';
+}
+
+/**
+ * Parse a BOT_SCORE_THRESHOLD value, falling back to the default
+ */
+export function parseBotScoreThreshold(value: string | undefined): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 && parsed <= 100 ? parsed : DEFAULT_BOT_SCORE_THRESHOLD;
+}
+
+function ipv4ToInt(ip: string): number | null {
+  const octets = ip.split('.');
+  if (octets.length !== 4 || !octets.every(octet => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) {
+    return null;
+  }
+  return octets.reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+/**
+ * Parse a BOT_IP_DENYLIST value: comma-separated IPs and IPv4 CIDR ranges
+ */
+export function parseIpDenylist(value: string | undefined): IpDenylist {
+  const denylist: IpDenylist = { exact: new Set(), ranges: [] };
+
+  for (const entry of value?.split(',') ?? []) {
+    const trimmed = entry.trim().toLowerCase();
+    if (!trimmed) continue;
+
+    const [ip, bits] = trimmed.split('/');
+    const network = ipv4ToInt(ip);
+    const prefix = bits === undefined ? NaN : parseInt(bits, 10);
+
+    if (network !== null && prefix >= 0 && prefix <= 32) {
+      // `>>> 0` keeps the mask unsigned; a /0 mask matches everything
+      const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+      denylist.ranges.push({ network: (network & mask) >>> 0, mask });
+    } else {
+      denylist.exact.add(trimmed);
+    }
+  }
+
+  return denylist;
+}
+
+function isDenylisted(denylist: IpDenylist, ip: string): boolean {
+  if (denylist.exact.has(ip.toLowerCase())) return true;
+
+  const value = ipv4ToInt(ip);
+  return value !== null && denylist.ranges.some(range => ((value & range.mask) >>> 0) === range.network);
+}
+
+/**
+ * Collect bot signals for a request
+ */
+export function getRequestBotSignals(c: Context, scoreThreshold: number): RequestBotSignals {
+  const cf = c.req.raw.cf as IncomingRequestCfProperties | undefined;
+  // Only present on zones with Bot Management; a score of 0 means "not computed"
+  const botManagement = cf?.botManagement as { score?: number; verifiedBot?: boolean } | undefined;
+  const score = botManagement?.score ?? 0;
+
+  return {
+    userAgent: c.req.header('User-Agent'),
+    connectingIp: c.req.header('CF-Connecting-IP'),
+    lowScore: !!botManagement?.verifiedBot || (score > 0 && score < scoreThreshold),
+  };
+}
+
+/**
+ * Decide whether an event came from a bot
+ *
+ * The request's bot score describes whoever sent the request, so it only
+ * applies to events whose user agent matches the request's - not to events
+ * relayed by a backend on behalf of real users.
+ */
+export function detectBot(
+  event: FlattenedEvent,
+  signals: RequestBotSignals,
+  denylist: IpDenylist
+): BotReason | null {
+  const userAgent = event.context?.userAgent;
+
+  if (userAgent && isBotUserAgent(userAgent)) {
+    return 'user_agent';
+  }
+
+  if (signals.lowScore && userAgent && userAgent === signals.userAgent) {
+    return 'bot_score';
+  }
+
+  const ip = event.context?.ip;
+  if ((ip && isDenylisted(denylist, ip)) || (signals.connectingIp && isDenylisted(denylist, signals.connectingIp))) {
+    return 'ip_denylist';
+  }
+
+  return null;
+}
+
+/**
+ * Tag or drop bot events according to the source's mode
+ */
+export function filterBots(
+  events: FlattenedEvent[],
+  signals: RequestBotSignals,
+  denylist: IpDenylist,
+  mode: BotMode
+): BotFilterResult {
+  const kept: FlattenedEvent[] = [];
+  const reasonCounts = new Map<string, number>();
+
+  for (const event of events) {
+    const reason = detectBot(event, signals, denylist);
+    if (!reason) {
+      kept.push(event);
+      continue;
+    }
+
+    reasonCounts.set(reason, (reasonCounts.get(reason) ?? 0) + 1);
+    if (mode === 'tag') {
+      kept.push({ ...event, context: { ...event.context, bot: true } });
+    }
+  }
+
+  return { events: kept, dropped: events.length - kept.length, reasonCounts };
+}
@@ -0,0 +1,31 @@
+/**
+ * Per-isolate cache for configuration loaded from D1
+ *
+ * Each Worker isolate keeps its own copy, so admin changes take effect
+ * within the TTL everywhere (immediately in the isolate that made them).
+ */
+export interface ConfigCache<T> {
+  /** Return the cached value, loading it if missing or expired */
+  get(load: () => Promise<T>): Promise<T>;
+  /** Drop the cached value so the next get() reloads it */
+  invalidate(): void;
+}
+
+export function createConfigCache<T>(ttlMs: number): ConfigCache<T> {
+  let cached: { value: T; expiresAt: number } | null = null;
+
+  return {
+    async get(load) {
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.value;
+      }
+      const value = await load();
+      cached = { value, expiresAt: Date.now() + ttlMs };
+      return value;
+    },
+
+    invalidate() {
+      cached = null;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import {
+  applyConsentPolicy,
+  validateConsentPolicy,
+  type ConsentPolicy,
+  type FlattenedEvent,
+} from '@icelight/core';
+
+export const CONSENT_METRIC = 'consent.decision';
+
+export type ConsentConfig =
+  | { success: true; policy: ConsentPolicy | null }
+  | { success: false; message: string };
+
+export interface ConsentFilterResult {
+  events: FlattenedEvent[];
+  /** Events dropped for lack of consent */
+  dropped: number;
+  /** Decisions per `<action>:<reason>` label, e.g. "anonymize:missing" */
+  decisionCounts: Map<string, number>;
+}
+
+// Parsed policy keyed by the raw CONSENT_POLICY value (per isolate)
+let cached: { raw: string; config: ConsentConfig } | undefined;
+
+/**
+ * Parse a CONSENT_POLICY value (a JSON consent policy)
+ * An unset value means consent is not enforced
+ */
+export function parseConsentPolicy(raw: string | undefined): ConsentConfig {
+  if (!raw?.trim()) {
+    return { success: true, policy: null };
+  }
+  if (cached?.raw === raw) {
+    return cached.config;
+  }
+
+  let config: ConsentConfig;
+  try {
+    const policy: unknown = JSON.parse(raw);
+    const validation = validateConsentPolicy(policy);
+    config = validation.valid
+      ? { success: true, policy: policy as ConsentPolicy }
+      : { success: false, message: validation.errors.join('; ') };
+  } catch {
+    config = { success: false, message: 'CONSENT_POLICY is not valid JSON' };
+  }
+
+  cached = { raw, config };
+  return config;
+}
+
+/**
+ * Store, anonymize or drop each event according to its consent
+ */
+export function filterConsent(events: FlattenedEvent[], policy: ConsentPolicy): ConsentFilterResult {
+  const kept: FlattenedEvent[] = [];
+  const decisionCounts = new Map<string, number>();
+
+  for (const event of events) {
+    const result = applyConsentPolicy(event, policy);
+    const label = `${result.decision.action}:${result.decision.reason}`;
+    decisionCounts.set(label, (decisionCounts.get(label) ?? 0) + 1);
+
+    if (result.event) {
+      kept.push(result.event);
+    }
+  }
+
+  return { events: kept, dropped: events.length - kept.length, decisionCounts };
+}
@@ -0,0 +1,68 @@
+/**
+ * Consent audit routes for Hono
+ */
+import { Hono } from 'hono';
+import { isNotNull } from 'drizzle-orm';
+import { createDb } from '../db/index.js';
+import { sources } from '../db/schema.js';
+import { queryMetrics } from '../metrics.js';
+import { CONSENT_METRIC, parseConsentPolicy } from './policy.js';
+
+/**
+ * Environment type for consent routes
+ */
+interface ConsentRoutesEnv {
+  CONSENT_POLICY?: string;
+  DB?: D1Database;
+}
+
+/**
+ * Create consent audit routes
+ */
+export function createConsentRoutes() {
+  const app = new Hono<{ Bindings: ConsentRoutesEnv }>();
+
+  // Middleware to check D1 binding
+  app.use('*', async (c, next) => {
+    if (!c.env.DB) {
+      return c.json({ success: false, error: 'Consent audit not configured (D1 binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // GET /admin/consent?days=30 - Policies in force and daily decision counts
+  app.get('/', async (c) => {
+    const days = Math.min(Math.max(parseInt(c.req.query('days') ?? '30', 10) || 30, 1), 90);
+    const db = createDb(c.env.DB!);
+    const defaultPolicy = parseConsentPolicy(c.env.CONSENT_POLICY);
+
+    const [policies, rows] = await Promise.all([
+      db
+        .select({ id: sources.id, name: sources.name, consentPolicy: sources.consentPolicy })
+        .from(sources)
+        .where(isNotNull(sources.consentPolicy)),
+      queryMetrics(db, CONSENT_METRIC, days),
+    ]);
+
+    return c.json({
+      success: true,
+      data: {
+        defaultPolicy: defaultPolicy.success ? defaultPolicy.policy : null,
+        defaultPolicyError: defaultPolicy.success ? undefined : defaultPolicy.message,
+        sources: policies,
+        decisions: rows.map(row => {
+          const [action, reason] = row.label.split(':');
+          return {
+            day: row.day,
+            sourceId: row.sourceId || null,
+            action,
+            reason,
+            count: row.count,
+          };
+        }),
+      },
+    });
+  });
+
+  return app;
+}
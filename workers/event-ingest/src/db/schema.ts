@@ -0,0 +1,118 @@
+/**
+ * Drizzle schema for D1 database tables
+ */
+import type { ConsentPolicy, TransformCondition, TransformRule } from '@icelight/core';
+import type { DestinationAuth } from '../destinations/types.js';
+import { sqliteTable, text, integer, primaryKey, uniqueIndex, index } from 'drizzle-orm/sqlite-core';
+
+/**
+ * Sources table - one row per website, app or backend sending events
+ *
+ * Write keys are never stored in plain text: only a SHA-256 hash (for lookup)
+ * and a short prefix (so admins can tell keys apart).
+ */
+export const sources = sqliteTable('sources', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  writeKeyHash: text('write_key_hash').notNull().unique(),
+  writeKeyPrefix: text('write_key_prefix').notNull(),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+  lastUsedAt: text('last_used_at'),
+  revokedAt: text('revoked_at'),
+  trackingPlanMode: text('tracking_plan_mode', { enum: ['allow', 'warn', 'block'] }).notNull().default('allow'),
+  botMode: text('bot_mode', { enum: ['off', 'tag', 'drop'] }).notNull().default('tag'),
+  consentPolicy: text('consent_policy', { mode: 'json' }).$type<ConsentPolicy>(),
+});
+
+export type Source = typeof sources.$inferSelect;
+export type NewSource = typeof sources.$inferInsert;
+
+/**
+ * Tracking plan entries - one JSON Schema per planned track event,
+ * plus optional schemas for identify and group traits (empty event_name)
+ */
+export const trackingPlanEntries = sqliteTable('tracking_plan_entries', {
+  id: text('id').primaryKey(),
+  eventType: text('event_type', { enum: ['track', 'identify', 'group'] }).notNull(),
+  eventName: text('event_name').notNull().default(''),
+  description: text('description'),
+  schema: text('schema').notNull(), // JSON string of JsonSchema
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  uniqueIndex('idx_tracking_plan_event').on(table.eventType, table.eventName),
+]);
+
+export type TrackingPlanEntry = typeof trackingPlanEntries.$inferSelect;
+
+/**
+ * Transformation rules - applied in position order to every ingested event
+ */
+export const transformationRules = sqliteTable('transformation_rules', {
+  id: text('id').primaryKey(),
+  position: integer('position').notNull(),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(false),
+  description: text('description'),
+  rule: text('rule', { mode: 'json' }).$type<TransformRule>().notNull(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  index('idx_transformation_rules_position').on(table.position),
+]);
+
+export type TransformationRule = typeof transformationRules.$inferSelect;
+
+/**
+ * Destinations - HTTP endpoints that accepted events are forwarded to
+ *
+ * Credentials are not stored here: auth names the scheme, and the secret
+ * comes from the DESTINATION_SECRETS secret, keyed by destination name.
+ */
+export const destinations = sqliteTable('destinations', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  url: text('url').notNull(),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  auth: text('auth', { mode: 'json' }).$type<DestinationAuth>(),
+  filter: text('filter', { mode: 'json' }).$type<TransformCondition[]>(),
+  template: text('template', { mode: 'json' }).$type<unknown>(),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+export type Destination = typeof destinations.$inferSelect;
+
+/**
+ * Destination delivery log - one row per event sent (or given up on)
+ */
+export const destinationDeliveries = sqliteTable('destination_deliveries', {
+  id: text('id').primaryKey(),
+  destinationId: text('destination_id').notNull(),
+  messageId: text('message_id').notNull(),
+  status: text('status', { enum: ['delivered', 'failed'] }).notNull(),
+  attempts: integer('attempts').notNull(),
+  responseStatus: integer('response_status'),
+  error: text('error'),
+  createdAt: text('created_at').notNull(),
+}, (table) => [
+  index('idx_destination_deliveries_destination').on(table.destinationId, table.createdAt),
+  index('idx_destination_deliveries_created').on(table.createdAt),
+]);
+
+export type DestinationDelivery = typeof destinationDeliveries.$inferSelect;
+
+/**
+ * Daily ingest counters (e.g. tracking plan violations per event name)
+ * source_id is empty for requests without a registered source
+ */
+export const ingestMetrics = sqliteTable('ingest_metrics', {
+  day: text('day').notNull(), // YYYY-MM-DD (UTC)
+  sourceId: text('source_id').notNull().default(''),
+  metric: text('metric').notNull(),
+  label: text('label').notNull().default(''),
+  count: integer('count').notNull().default(0),
+}, (table) => [
+  primaryKey({ columns: [table.day, table.sourceId, table.metric, table.label] }),
+]);
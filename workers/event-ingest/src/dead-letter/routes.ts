@@ -0,0 +1,73 @@
+/**
+ * Dead-letter admin routes for Hono
+ */
+import { Hono } from 'hono';
+import { createDb } from '../db/index.js';
+import { forwardEvents } from '../destinations/forward.js';
+import { loadDestinations } from '../destinations/store.js';
+import type { PipelineBinding } from '../handler.js';
+import { listDeadLetters, replayDeadLetters } from './store.js';
+
+/**
+ * Environment type for dead-letter routes
+ */
+interface DeadLetterEnv {
+  DEAD_LETTER?: R2Bucket;
+  PIPELINE?: PipelineBinding;
+  DB?: D1Database;
+  DESTINATION_SECRETS?: string;
+}
+
+/** Batches replayed per request unless ?limit= is given */
+const DEFAULT_REPLAY_LIMIT = 100;
+
+/**
+ * Create dead-letter routes
+ */
+export function createDeadLetterRoutes() {
+  const app = new Hono<{ Bindings: DeadLetterEnv }>();
+
+  // Middleware to check R2 binding
+  app.use('*', async (c, next) => {
+    if (!c.env.DEAD_LETTER) {
+      return c.json({ success: false, error: 'Dead-letter storage not configured (R2 binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // GET /admin/dead-letter - List dead-lettered batches, oldest first
+  app.get('/', async (c) => {
+    const entries = await listDeadLetters(c.env.DEAD_LETTER!);
+    return c.json({ success: true, data: entries });
+  });
+
+  // POST /admin/dead-letter/replay?limit=100 - Re-send batches in order
+  app.post('/replay', async (c) => {
+    if (!c.env.PIPELINE) {
+      return c.json({ success: false, error: 'Pipeline not configured' }, 500);
+    }
+
+    const limit = Math.max(parseInt(c.req.query('limit') ?? '', 10) || DEFAULT_REPLAY_LIMIT, 1);
+    // Dead-lettered events were never forwarded, so destinations get them now
+    const db = c.env.DB ? createDb(c.env.DB) : undefined;
+    const result = await replayDeadLetters(c.env.DEAD_LETTER!, c.env.PIPELINE, limit, events => {
+      if (!db) return;
+      c.executionCtx.waitUntil(
+        loadDestinations(db)
+          .then(destinations => forwardEvents(db, destinations, events, c.env.DESTINATION_SECRETS))
+          .catch((err: Error) => {
+            console.error('[dead-letter] Failed to forward replayed events:', err.message);
+          })
+      );
+    });
+
+    if (result.error) {
+      console.error('[dead-letter] Replay stopped:', result.error);
+      return c.json({ success: false, error: `Replay stopped: ${result.error}`, data: result }, 502);
+    }
+
+    return c.json({ success: true, data: result });
+  });
+
+  return app;
+}
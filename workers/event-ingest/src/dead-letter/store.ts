@@ -0,0 +1,148 @@
+/**
+ * Dead-letter storage for batches the pipeline failed to accept
+ *
+ * Each failed send is written to R2 as one JSON object under
+ * DEAD_LETTER_PREFIX. Keys start with the failure time, so listing the
+ * prefix returns batches in the order they failed. Events keep their
+ * `integrations`, since destinations only receive them once replayed.
+ */
+import { toStoredEvent, type FlattenedEvent } from '@icelight/core';
+import type { PipelineBinding } from '../handler.js';
+
+export const DEAD_LETTER_PREFIX = 'dead-letter/';
+
+/**
+ * Dead-lettered batch as stored in R2
+ */
+export interface DeadLetterBatch {
+  failedAt: string;
+  error: string;
+  sourceId: string | null;
+  events: FlattenedEvent[];
+}
+
+/**
+ * Dead-lettered batch summary (without the events)
+ */
+export interface DeadLetterEntry {
+  key: string;
+  failedAt: string;
+  error: string;
+  sourceId: string | null;
+  count: number;
+}
+
+export interface ReplayResult {
+  /** Batches re-sent and removed from the dead-letter prefix */
+  replayedBatches: number;
+  /** Events in the replayed batches */
+  replayedEvents: number;
+  /** Batches still waiting for replay */
+  remaining: number;
+  /** Error that stopped the replay, if any */
+  error?: string;
+}
+
+/**
+ * Store a batch that failed to send
+ */
+export async function writeDeadLetter(
+  bucket: R2Bucket,
+  events: FlattenedEvent[],
+  error: string,
+  sourceId: string | null
+): Promise<string> {
+  const failedAt = new Date().toISOString();
+  const key = `${DEAD_LETTER_PREFIX}${failedAt}_${Math.random().toString(36).substring(2, 9)}.json`;
+  const batch: DeadLetterBatch = { failedAt, error, sourceId, events };
+
+  await bucket.put(key, JSON.stringify(batch), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: {
+      failedAt,
+      error: error.slice(0, 1024),
+      sourceId: sourceId ?? '',
+      count: String(events.length),
+    },
+  });
+
+  return key;
+}
+
+/**
+ * List every dead-letter object in failure order
+ */
+async function listObjects(bucket: R2Bucket): Promise<R2Object[]> {
+  const objects: R2Object[] = [];
+  let cursor: string | undefined;
+
+  do {
+    // `include` is supported at runtime but missing from the default workers-types
+    const page = await bucket.list({
+      prefix: DEAD_LETTER_PREFIX,
+      cursor,
+      include: ['customMetadata'],
+    } as R2ListOptions);
+    objects.push(...page.objects);
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return objects;
+}
+
+/**
+ * List dead-lettered batches, oldest first
+ */
+export async function listDeadLetters(bucket: R2Bucket): Promise<DeadLetterEntry[]> {
+  const objects = await listObjects(bucket);
+
+  return objects.map(object => ({
+    key: object.key,
+    failedAt: object.customMetadata?.failedAt ?? object.uploaded.toISOString(),
+    error: object.customMetadata?.error ?? '',
+    sourceId: object.customMetadata?.sourceId || null,
+    count: parseInt(object.customMetadata?.count ?? '0', 10),
+  }));
+}
+
+/**
+ * Re-send dead-lettered batches in the order they failed
+ *
+ * Each batch is deleted once the pipeline accepts it, and its events are then
+ * passed to `onReplayed` (e.g. to forward them to destinations). Replay stops
+ * at the first failure so later batches are never sent ahead of earlier ones.
+ */
+export async function replayDeadLetters(
+  bucket: R2Bucket,
+  pipeline: PipelineBinding,
+  limit: number,
+  onReplayed?: (events: FlattenedEvent[]) => void
+): Promise<ReplayResult> {
+  const objects = await listObjects(bucket);
+  const result: ReplayResult = { replayedBatches: 0, replayedEvents: 0, remaining: objects.length };
+
+  for (const object of objects.slice(0, limit)) {
+    const body = await bucket.get(object.key);
+    if (!body) {
+      // Removed by a concurrent replay
+      result.remaining--;
+      continue;
+    }
+
+    const batch = await body.json<DeadLetterBatch>();
+    try {
+      await pipeline.send(batch.events.map(toStoredEvent));
+    } catch (err) {
+      result.error = (err as Error).message;
+      break;
+    }
+
+    await bucket.delete(object.key);
+    onReplayed?.(batch.events);
+    result.replayedBatches++;
+    result.replayedEvents += batch.events.length;
+    result.remaining--;
+  }
+
+  return result;
+}
@@ -0,0 +1,73 @@
+import type { FlattenedEvent } from '@icelight/core';
+
+/** Default deduplication window: 24 hours */
+export const DEFAULT_DEDUP_WINDOW_SECONDS = 86400;
+
+/** KV rejects expirationTtl values below 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
+const KEY_PREFIX = 'dedup:';
+
+/**
+ * Most messageIds checked and recorded per request, so a request costs one
+ * bulk KV read and a bounded number of writes; later events in a larger batch
+ * are only deduplicated within the request
+ */
+export const MAX_DEDUP_EVENTS = 100;
+
+export interface DedupResult {
+  /** Events whose messageId has not been accepted within the window */
+  events: FlattenedEvent[];
+  /** Number of events dropped as duplicates */
+  duplicates: number;
+}
+
+/**
+ * Parse a DEDUP_WINDOW_SECONDS value, falling back to the default
+ */
+export function parseDedupWindow(value: string | undefined): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_DEDUP_WINDOW_SECONDS;
+}
+
+/**
+ * Drop events whose messageId was already accepted within the window,
+ * as well as repeats of the same messageId inside one request
+ * Only the first MAX_DEDUP_EVENTS unique messageIds are looked up in KV.
+ */
+export async function filterDuplicates(kv: KVNamespace, events: FlattenedEvent[]): Promise<DedupResult> {
+  const seen = new Set<string>();
+  const unique: FlattenedEvent[] = [];
+
+  for (const event of events) {
+    if (!seen.has(event.message_id)) {
+      seen.add(event.message_id);
+      unique.push(event);
+    }
+  }
+
+  const checked = unique.slice(0, MAX_DEDUP_EVENTS);
+  const existing = checked.length > 0
+    ? await kv.get(checked.map(event => KEY_PREFIX + event.message_id), 'text')
+    : new Map<string, string | null>();
+  const accepted = [
+    ...checked.filter(event => existing.get(KEY_PREFIX + event.message_id) == null),
+    ...unique.slice(MAX_DEDUP_EVENTS),
+  ];
+
+  return { events: accepted, duplicates: events.length - accepted.length };
+}
+
+/**
+ * Remember accepted messageIds for the deduplication window
+ * Called only after a successful pipeline send, so failed sends can be retried
+ * Records at most MAX_DEDUP_EVENTS messageIds, matching what filterDuplicates checks.
+ */
+export async function markAccepted(
+  kv: KVNamespace,
+  events: FlattenedEvent[],
+  windowSeconds: number
+): Promise<void> {
+  const expirationTtl = Math.max(windowSeconds, MIN_KV_TTL_SECONDS);
+  await Promise.all(events.slice(0, MAX_DEDUP_EVENTS).map(event => kv.put(KEY_PREFIX + event.message_id, '1', { expirationTtl })));
+}
@@ -0,0 +1,216 @@
+/**
+ * Forwarding of accepted events to destinations
+ *
+ * The events of a batch that a destination should receive are POSTed to it
+ * as one JSON array, so a batch costs one request per destination (plus
+ * retries). Network errors, timeouts, 429 and 5xx responses are retried;
+ * other responses are final. Each destination's outcome is written to the
+ * delivery log as soon as it is known, one row per event.
+ */
+import { renderPayloadTemplate, shouldForward, toStoredEvent, type FlattenedEvent } from '@icelight/core';
+import type { Database } from '../db/index.js';
+import type { Destination } from '../db/schema.js';
+import { toBase64 } from '../webhooks/signature.js';
+import { recordDeliveries } from './store.js';
+import type { DestinationAuth } from './types.js';
+
+/** Wait before each retry; a request gets one attempt more than there are delays */
+const RETRY_DELAYS_MS = [500, 2_000];
+
+/** Per-attempt timeout, keeping all attempts within the waitUntil budget */
+const REQUEST_TIMEOUT_MS = 5_000;
+
+/** Requests open at once (Workers allow six simultaneous connections) */
+const MAX_CONCURRENT_REQUESTS = 6;
+
+export type DestinationSecretsResult =
+  | { success: true; secrets: Record<string, string> }
+  | { success: false; message: string };
+
+export interface DeliveryOutcome {
+  status: 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export interface ForwardOptions {
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Parsed DESTINATION_SECRETS keyed by the raw env value (per isolate)
+let cached: { raw: string; result: DestinationSecretsResult } | undefined;
+
+/**
+ * Parse DESTINATION_SECRETS (JSON object of secrets by destination name)
+ */
+export function parseDestinationSecrets(raw: string | undefined): DestinationSecretsResult {
+  if (cached && cached.raw === (raw ?? '')) {
+    return cached.result;
+  }
+
+  let result: DestinationSecretsResult;
+  if (!raw?.trim()) {
+    result = { success: true, secrets: {} };
+  } else {
+    try {
+      const value: unknown = JSON.parse(raw);
+      const entries = value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : null;
+      result = !entries
+        ? { success: false, message: 'DESTINATION_SECRETS must be a JSON object' }
+        : entries.some(([, secret]) => typeof secret !== 'string' || secret === '')
+          ? { success: false, message: 'DESTINATION_SECRETS values must be non-empty strings' }
+          : { success: true, secrets: Object.fromEntries(entries) as Record<string, string> };
+    } catch {
+      result = { success: false, message: 'DESTINATION_SECRETS is not valid JSON' };
+    }
+  }
+
+  cached = { raw: raw ?? '', result };
+  return result;
+}
+
+/**
+ * Request headers carrying a destination's credentials
+ */
+export function buildAuthHeaders(auth: DestinationAuth, secret: string): Record<string, string> {
+  switch (auth.type) {
+    case 'bearer':
+      return { Authorization: `Bearer ${secret}` };
+    case 'basic':
+      return { Authorization: `Basic ${toBase64(new TextEncoder().encode(secret))}` };
+    case 'header':
+      return { [auth.header!]: secret };
+  }
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * POST one payload, retrying transient failures
+ */
+async function deliver(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  options: Required<ForwardOptions>
+): Promise<DeliveryOutcome> {
+  let outcome: DeliveryOutcome = { status: 'failed', attempts: 0, responseStatus: null, error: null };
+
+  for (let attempt = 0; attempt <= RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) {
+      await options.sleep(RETRY_DELAYS_MS[attempt - 1]);
+    }
+
+    try {
+      const response = await options.fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (response.ok) {
+        return { status: 'delivered', attempts: attempt + 1, responseStatus: response.status, error: null };
+      }
+      outcome = { status: 'failed', attempts: attempt + 1, responseStatus: response.status, error: `HTTP ${response.status}` };
+      if (!isRetryable(response.status)) break;
+    } catch (err) {
+      outcome = { status: 'failed', attempts: attempt + 1, responseStatus: null, error: (err as Error).message };
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Run tasks with a limit on how many are in flight
+ */
+async function runWithConcurrency(tasks: Array<() => Promise<void>>, limit: number): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, tasks.length) }, async () => {
+    while (next < tasks.length) {
+      await tasks[next++]();
+    }
+  });
+  await Promise.all(workers);
+}
+
+function generateDeliveryId(): string {
+  return `dlv_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Send events to every destination that should receive them and log the outcomes
+ * Each destination's outcome is logged as soon as it is known, so a cut-off
+ * keeps the rows of the destinations that already finished.
+ */
+export async function forwardEvents(
+  db: Database,
+  destinations: Destination[],
+  events: FlattenedEvent[],
+  secretsRaw: string | undefined,
+  options: ForwardOptions = {}
+): Promise<void> {
+  const resolved: Required<ForwardOptions> = {
+    fetch: options.fetch ?? fetch,
+    sleep: options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms))),
+  };
+  const secrets = parseDestinationSecrets(secretsRaw);
+  const tasks: Array<() => Promise<void>> = [];
+  let failed = 0;
+  let total = 0;
+
+  for (const destination of destinations) {
+    const matched = events.filter(event => shouldForward(event, destination));
+    if (matched.length === 0) continue;
+
+    const record = (outcome: DeliveryOutcome) => {
+      const createdAt = new Date().toISOString();
+      total += matched.length;
+      if (outcome.status === 'failed') failed += matched.length;
+      // A failed log write must not stop the other destinations' deliveries
+      return recordDeliveries(db, matched.map(event => ({
+        id: generateDeliveryId(),
+        destinationId: destination.id,
+        messageId: event.message_id,
+        ...outcome,
+        createdAt,
+      }))).catch((err: Error) => {
+        console.error(`[ingest] Failed to log deliveries to ${destination.name}:`, err.message);
+      });
+    };
+
+    // Without its credentials a destination cannot be reached; log why
+    let headers: Record<string, string> = {};
+    let configError: string | null = null;
+    if (destination.auth) {
+      if (!secrets.success) {
+        configError = secrets.message;
+      } else if (!secrets.secrets[destination.name]) {
+        configError = `No secret in DESTINATION_SECRETS for ${destination.name}`;
+      } else {
+        headers = buildAuthHeaders(destination.auth, secrets.secrets[destination.name]);
+      }
+    }
+
+    if (configError) {
+      const error = configError;
+      tasks.push(() => record({ status: 'failed', attempts: 0, responseStatus: null, error }));
+      continue;
+    }
+
+    const payload = matched.map(event => destination.template == null
+      ? toStoredEvent(event)
+      : renderPayloadTemplate(destination.template, event));
+    tasks.push(async () => record(await deliver(destination.url, headers, JSON.stringify(payload), resolved)));
+  }
+
+  await runWithConcurrency(tasks, MAX_CONCURRENT_REQUESTS);
+
+  if (failed > 0) {
+    console.error(`[ingest] ${failed} of ${total} destination deliveries failed`);
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Destination admin routes for Hono
+ */
+import { Hono } from 'hono';
+import { eq } from 'drizzle-orm';
+import { validateConditions } from '@icelight/core';
+import { createDb } from '../db/index.js';
+import { destinations } from '../db/schema.js';
+import type {
+  CreateDestinationInput,
+  DeliveryListResponse,
+  DestinationAuth,
+  DestinationListResponse,
+  DestinationResponse,
+  UpdateDestinationInput,
+} from './types.js';
+import {
+  deleteDeliveries,
+  invalidateDestinations,
+  listDeliveries,
+  listDestinations,
+  toDeliveryRecord,
+  toDestinationRecord,
+} from './store.js';
+
+/**
+ * Environment type for destination routes
+ */
+interface DestinationsEnv {
+  DB?: D1Database;
+}
+
+const AUTH_TYPES: DestinationAuth['type'][] = ['bearer', 'basic', 'header'];
+
+/**
+ * Generate a unique ID for destinations
+ */
+function generateId(): string {
+  return `dst_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get current ISO timestamp
+ */
+function now(): string {
+  return new Date().toISOString();
+}
+
+function validateUrl(url: unknown): string | null {
+  if (typeof url !== 'string') return 'url is required';
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:' ? null : 'url must be an http(s) URL';
+  } catch {
+    return 'url must be an http(s) URL';
+  }
+}
+
+/**
+ * Check the optional fields shared by create and update
+ */
+function validateSettings(body: UpdateDestinationInput): string | null {
+  if (body.url !== undefined) {
+    const error = validateUrl(body.url);
+    if (error) return error;
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  if (body.auth != null) {
+    if (!AUTH_TYPES.includes(body.auth.type)) {
+      return `auth.type must be one of: ${AUTH_TYPES.join(', ')}`;
+    }
+    if (body.auth.type === 'header' && (typeof body.auth.header !== 'string' || body.auth.header === '')) {
+      return 'auth.header is required for header auth';
+    }
+  }
+  if (body.filter != null) {
+    const errors = validateConditions(body.filter);
+    if (errors.length > 0) return `Invalid filter: ${errors.map(e => e.replace(/^when/, 'filter')).join('; ')}`;
+  }
+  return null;
+}
+
+function parseLimit(value: string | undefined): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, 500) : 50;
+}
+
+/**
+ * Create destination routes
+ */
+export function createDestinationRoutes() {
+  const app = new Hono<{ Bindings: DestinationsEnv }>();
+
+  // Middleware to check D1 binding
+  app.use('*', async (c, next) => {
+    if (!c.env.DB) {
+      return c.json({ success: false, error: 'Destination storage not configured (D1 binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // GET /admin/destinations - List destinations
+  app.get('/', async (c) => {
+    const rows = await listDestinations(createDb(c.env.DB!));
+    return c.json({ success: true, data: rows.map(toDestinationRecord) } satisfies DestinationListResponse);
+  });
+
+  // POST /admin/destinations - Add a destination
+  app.post('/', async (c) => {
+    let body: CreateDestinationInput;
+    try {
+      body = await c.req.json<CreateDestinationInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies DestinationResponse, 400);
+    }
+
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      return c.json({ success: false, error: 'name is required' } satisfies DestinationResponse, 400);
+    }
+    // "All" is the integrations key for every destination
+    if (body.name.trim() === 'All') {
+      return c.json({ success: false, error: 'All is a reserved name' } satisfies DestinationResponse, 400);
+    }
+    const error = validateUrl(body.url) ?? validateSettings(body);
+    if (error) {
+      return c.json({ success: false, error } satisfies DestinationResponse, 400);
+    }
+
+    const db = createDb(c.env.DB!);
+    const name = body.name.trim();
+    const [existing] = await db.select({ id: destinations.id }).from(destinations).where(eq(destinations.name, name));
+    if (existing) {
+      return c.json({ success: false, error: `A destination named ${name} already exists` } satisfies DestinationResponse, 409);
+    }
+
+    const timestamp = now();
+    const newDestination = {
+      id: generateId(),
+      name,
+      url: body.url,
+      enabled: body.enabled ?? true,
+      auth: body.auth ?? null,
+      filter: body.filter ?? null,
+      template: body.template ?? null,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await db.insert(destinations).values(newDestination);
+    invalidateDestinations();
+
+    return c.json({ success: true, data: toDestinationRecord(newDestination) } satisfies DestinationResponse, 201);
+  });
+
+  // PATCH /admin/destinations/:id - Change or enable/disable a destination
+  app.patch('/:id', async (c) => {
+    const id = c.req.param('id');
+
+    let body: UpdateDestinationInput;
+    try {
+      body = await c.req.json<UpdateDestinationInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies DestinationResponse, 400);
+    }
+
+    const error = validateSettings(body);
+    if (error) {
+      return c.json({ success: false, error } satisfies DestinationResponse, 400);
+    }
+
+    const db = createDb(c.env.DB!);
+    const updates: Partial<typeof destinations.$inferInsert> = { updatedAt: now() };
+    if (body.url !== undefined) updates.url = body.url;
+    if (body.enabled !== undefined) updates.enabled = body.enabled;
+    if (body.auth !== undefined) updates.auth = body.auth;
+    if (body.filter !== undefined) updates.filter = body.filter;
+    if (body.template !== undefined) updates.template = body.template;
+
+    const [updated] = await db
+      .update(destinations)
+      .set(updates)
+      .where(eq(destinations.id, id))
+      .returning();
+
+    if (!updated) {
+      return c.json({ success: false, error: 'Destination not found' } satisfies DestinationResponse, 404);
+    }
+
+    invalidateDestinations();
+    return c.json({ success: true, data: toDestinationRecord(updated) } satisfies DestinationResponse);
+  });
+
+  // DELETE /admin/destinations/:id - Remove a destination and its delivery log
+  app.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    const db = createDb(c.env.DB!);
+
+    const deleted = await db
+      .delete(destinations)
+      .where(eq(destinations.id, id))
+      .returning();
+
+    if (deleted.length === 0) {
+      return c.json({ success: false, error: 'Destination not found' } satisfies DestinationResponse, 404);
+    }
+
+    await deleteDeliveries(db, id);
+    invalidateDestinations();
+    return c.json({ success: true } satisfies DestinationResponse);
+  });
+
+  // GET /admin/destinations/:id/deliveries?status=failed&limit=50 - Recent deliveries
+  app.get('/:id/deliveries', async (c) => {
+    const id = c.req.param('id');
+    const status = c.req.query('status');
+    if (status !== undefined && status !== 'delivered' && status !== 'failed') {
+      return c.json({ success: false, error: 'status must be delivered or failed' } satisfies DeliveryListResponse, 400);
+    }
+
+    const db = createDb(c.env.DB!);
+    const [destination] = await db.select({ id: destinations.id }).from(destinations).where(eq(destinations.id, id));
+    if (!destination) {
+      return c.json({ success: false, error: 'Destination not found' } satisfies DeliveryListResponse, 404);
+    }
+
+    const rows = await listDeliveries(db, id, { status, limit: parseLimit(c.req.query('limit')) });
+    return c.json({ success: true, data: rows.map(toDeliveryRecord) } satisfies DeliveryListResponse);
+  });
+
+  return app;
+}
@@ -0,0 +1,127 @@
+/**
+ * Destination storage and delivery log
+ */
+import { and, asc, desc, eq, lt } from 'drizzle-orm';
+import type { Database } from '../db/index.js';
+import {
+  destinationDeliveries,
+  destinations,
+  type Destination,
+  type DestinationDelivery,
+} from '../db/schema.js';
+import { createConfigCache } from '../cache.js';
+import type { DeliveryRecord, DestinationRecord } from './types.js';
+
+/** D1 allows 100 bound parameters per statement; each row binds 8 */
+const ROWS_PER_INSERT = 12;
+
+/** Delivery log entries older than this are pruned as new ones are written */
+const DELIVERY_RETENTION_MS = 7 * 86400000;
+
+/** Prune at most this often per isolate, so logging stays one write per destination */
+const PRUNE_INTERVAL_MS = 3600000;
+
+let lastPrunedAt: number | undefined;
+
+const destinationsCache = createConfigCache<Destination[]>(60_000);
+
+export type NewDelivery = typeof destinationDeliveries.$inferInsert;
+
+/**
+ * Convert a destination row to its API representation
+ */
+export function toDestinationRecord(row: Destination): DestinationRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    enabled: row.enabled,
+    auth: row.auth,
+    filter: row.filter,
+    template: row.template ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Convert a delivery row to its API representation
+ */
+export function toDeliveryRecord(row: DestinationDelivery): DeliveryRecord {
+  return {
+    id: row.id,
+    messageId: row.messageId,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.responseStatus,
+    error: row.error,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * List all destinations by name
+ */
+export function listDestinations(db: Database): Promise<Destination[]> {
+  return db.select().from(destinations).orderBy(asc(destinations.name));
+}
+
+/**
+ * Load the enabled destinations (cached per isolate for 60 seconds)
+ */
+export function loadDestinations(db: Database): Promise<Destination[]> {
+  return destinationsCache.get(async () => {
+    const rows = await listDestinations(db);
+    return rows.filter(row => row.enabled);
+  });
+}
+
+/**
+ * Drop the cached destinations after an admin change
+ */
+export function invalidateDestinations(): void {
+  destinationsCache.invalidate();
+}
+
+/**
+ * Append to the delivery log, pruning entries past the retention period at
+ * most once an hour per isolate
+ */
+export async function recordDeliveries(db: Database, deliveries: NewDelivery[], now = Date.now()): Promise<void> {
+  if (deliveries.length === 0) return;
+
+  for (let i = 0; i < deliveries.length; i += ROWS_PER_INSERT) {
+    await db.insert(destinationDeliveries).values(deliveries.slice(i, i + ROWS_PER_INSERT));
+  }
+
+  if (lastPrunedAt !== undefined && now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+  const cutoff = new Date(now - DELIVERY_RETENTION_MS).toISOString();
+  await db.delete(destinationDeliveries).where(lt(destinationDeliveries.createdAt, cutoff));
+}
+
+/**
+ * Most recent deliveries to a destination, optionally only failed or delivered ones
+ */
+export function listDeliveries(
+  db: Database,
+  destinationId: string,
+  options: { status?: DeliveryRecord['status']; limit: number }
+): Promise<DestinationDelivery[]> {
+  const conditions = [eq(destinationDeliveries.destinationId, destinationId)];
+  if (options.status) conditions.push(eq(destinationDeliveries.status, options.status));
+
+  return db
+    .select()
+    .from(destinationDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(destinationDeliveries.createdAt))
+    .limit(options.limit);
+}
+
+/**
+ * Remove a destination's delivery log
+ */
+export async function deleteDeliveries(db: Database, destinationId: string): Promise<void> {
+  await db.delete(destinationDeliveries).where(eq(destinationDeliveries.destinationId, destinationId));
+}
@@ -0,0 +1,92 @@
+/**
+ * Destination API types
+ */
+import type { TransformCondition } from '@icelight/core';
+
+/**
+ * How requests to a destination are authenticated, with the secret taken
+ * from DESTINATION_SECRETS
+ * - bearer: `Authorization: Bearer <secret>`
+ * - basic: `Authorization: Basic base64(<secret>)`, the secret being `user:password`
+ * - header: `<header>: <secret>`, e.g. `X-Api-Key`
+ */
+export interface DestinationAuth {
+  type: 'bearer' | 'basic' | 'header';
+  /** Header name (header auth only) */
+  header?: string;
+}
+
+/**
+ * Destination as returned by the admin API
+ */
+export interface DestinationRecord {
+  id: string;
+  /** Also the key events use to opt out in `integrations` */
+  name: string;
+  url: string;
+  enabled: boolean;
+  auth: DestinationAuth | null;
+  /** Conditions on the flattened event; all must match */
+  filter: TransformCondition[] | null;
+  /** Request body template; the flattened event is sent when null */
+  template: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Destination creation input
+ */
+export interface CreateDestinationInput {
+  name: string;
+  url: string;
+  enabled?: boolean;
+  auth?: DestinationAuth | null;
+  filter?: TransformCondition[] | null;
+  template?: unknown;
+}
+
+/**
+ * Destination update input (name cannot be changed)
+ */
+export interface UpdateDestinationInput {
+  url?: string;
+  enabled?: boolean;
+  auth?: DestinationAuth | null;
+  filter?: TransformCondition[] | null;
+  template?: unknown;
+}
+
+/**
+ * Delivery log entry as returned by the admin API
+ */
+export interface DeliveryRecord {
+  id: string;
+  messageId: string;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  /** HTTP status of the last attempt, null if no response was received */
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+/**
+ * API response types
+ */
+export interface DestinationListResponse {
+  success: boolean;
+  data: DestinationRecord[];
+}
+
+export interface DestinationResponse {
+  success: boolean;
+  data?: DestinationRecord;
+  error?: string;
+}
+
+export interface DeliveryListResponse {
+  success: boolean;
+  data?: DeliveryRecord[];
+  error?: string;
+}
@@ -0,0 +1,80 @@
+import type { Context } from 'hono';
+import type { FlattenedEvent, GeoContext } from '@icelight/core';
+
+export interface EnrichmentOptions {
+  /** Fill context.ip from CF-Connecting-IP when the client did not send one */
+  ip: boolean;
+  /** Add context.geo from request.cf */
+  geo: boolean;
+}
+
+/**
+ * Server-side enrichment derived from the incoming request
+ */
+export interface RequestEnrichment {
+  /** Client IP from CF-Connecting-IP */
+  connectingIp?: string;
+  /** Whether to fill missing context.ip with the connecting IP */
+  fillIp: boolean;
+  /** Location and network details from request.cf */
+  geo?: GeoContext;
+}
+
+/**
+ * Collect enrichment values for a request
+ */
+export function getRequestEnrichment(c: Context, options: EnrichmentOptions): RequestEnrichment {
+  const cf = c.req.raw.cf as IncomingRequestCfProperties | undefined;
+  const enrichment: RequestEnrichment = {
+    connectingIp: c.req.header('CF-Connecting-IP'),
+    fillIp: options.ip,
+  };
+
+  if (options.geo && cf) {
+    const geo: GeoContext = {
+      country: cf.country ?? undefined,
+      region: cf.region,
+      city: cf.city,
+      postalCode: cf.postalCode,
+      timezone: cf.timezone,
+      asn: cf.asn,
+      colo: cf.colo,
+    };
+    // Drop fields Cloudflare could not determine
+    enrichment.geo = Object.fromEntries(
+      Object.entries(geo).filter(([, value]) => value !== undefined && value !== '')
+    ) as GeoContext;
+  }
+
+  return enrichment;
+}
+
+/**
+ * Apply request enrichment to flattened events
+ *
+ * Client-sent values win: context.ip is only filled when missing, and
+ * context.geo is only added when the event has no geo and its IP (if any)
+ * matches the connecting IP. Events relayed by a backend carry the end
+ * user's IP, so the relay's location must not be attached to them.
+ */
+export function enrichEvents(events: FlattenedEvent[], enrichment: RequestEnrichment): FlattenedEvent[] {
+  const { connectingIp, fillIp, geo } = enrichment;
+
+  if (!geo && !(fillIp && connectingIp)) {
+    return events;
+  }
+
+  return events.map(event => {
+    const context = { ...event.context };
+
+    if (geo && !context.geo && (!context.ip || context.ip === connectingIp)) {
+      context.geo = geo;
+    }
+
+    if (fillIp && connectingIp && !context.ip) {
+      context.ip = connectingIp;
+    }
+
+    return { ...event, context };
+  });
+}
@@ -1,8 +1,80 @@
 import { Hono, Context } from "hono";
 import { cors } from "hono/cors";
-import type { FlattenedEvent } from "@icelight/core";
-import { authMiddleware } from "./auth.js";
-import { processBatch, processSingleEvent } from "./batch.js";
+import {
+  parsePromotedColumns,
+  promoteColumns,
+  toStoredEvent,
+  translateAmplitudeBatch,
+  translateGa4Payload,
+  translateMixpanelEngage,
+  translateMixpanelTrack,
+  type FlattenedEvent,
+  type TranslationResult,
+} from "@icelight/core";
+import {
+  authenticate,
+  authMiddleware,
+  adminAuthMiddleware,
+  type AuthConfig,
+  type AuthVariables,
+} from "./auth.js";
+import {
+  processBatch,
+  processSingleEvent,
+  parseBatchMode,
+  parseTimestampPolicy,
+  type RejectedEvent,
+} from "./batch.js";
+import {
+  bodyMiddleware,
+  parseMaxBodyBytes,
+  readTextBody,
+  type BodyVariables,
+} from "./body.js";
+import {
+  filterBots,
+  getRequestBotSignals,
+  parseBotMode,
+  parseBotScoreThreshold,
+  parseIpDenylist,
+  BOT_METRIC,
+} from "./bot.js";
+import { createConsentRoutes } from "./consent/routes.js";
+import { CONSENT_METRIC, filterConsent, parseConsentPolicy } from "./consent/policy.js";
+import { createDb } from "./db/index.js";
+import { createDeadLetterRoutes } from "./dead-letter/routes.js";
+import { writeDeadLetter } from "./dead-letter/store.js";
+import { filterDuplicates, markAccepted, parseDedupWindow } from "./dedup.js";
+import { enrichEvents, getRequestEnrichment } from "./enrich.js";
+import { createSourceResolver } from "./sources/store.js";
+import { createSourceRoutes } from "./sources/routes.js";
+import { createTrackingPlanRoutes } from "./tracking-plan/routes.js";
+import { createTransformationRoutes } from "./transformations/routes.js";
+import { loadTransformationRules } from "./transformations/store.js";
+import { createDestinationRoutes } from "./destinations/routes.js";
+import { loadDestinations } from "./destinations/store.js";
+import { forwardEvents } from "./destinations/forward.js";
+import {
+  enforceTrackingPlan,
+  loadTrackingPlan,
+  parseTrackingPlanMode,
+  VIOLATION_METRIC,
+  type BlockedEvent,
+} from "./tracking-plan/store.js";
+import { incrementMetrics } from "./metrics.js";
+import { decodePixelEvent, pixelResponse } from "./pixel.js";
+import {
+  checkRateLimits,
+  countRequestEvents,
+  parseRateLimits,
+  DEFAULT_KEY_ID,
+  THROTTLED_METRIC,
+  type RateLimitEnv,
+} from "./rate-limit/check.js";
+import type { RateLimiter } from "./rate-limit/limiter.js";
+import { createRateLimitRoutes } from "./rate-limit/routes.js";
+import { parseRedactionRules, redactEvents } from "./redaction.js";
+import { parseWebhookConfig } from "./webhooks/adapters.js";
 
 /**
  * Pipeline binding interface
@@ -12,28 +84,65 @@ export interface PipelineBinding {
   send(messages: unknown[]): Promise<void>;
 }
 
-export interface IngestEnv {
+export interface IngestEnv extends RateLimitEnv {
   PIPELINE?: PipelineBinding;
   STREAM_HTTP_ENDPOINT?: string; // HTTP endpoint for stream ingestion
   AUTH_ENABLED?: string;
   AUTH_TOKEN?: string;
   ALLOWED_ORIGINS?: string;
+  BATCH_MODE?: string; // "strict" (default) or "partial"
+  CORRECT_CLOCK_SKEW?: string; // "false" to keep client timestamps as sent
+  TIMESTAMP_POLICY?: string; // "accept" (default), "clamp" or "reject" out-of-range timestamps
+  MAX_TIMESTAMP_FUTURE_SECONDS?: string; // Allowed timestamp lead over received_at (default: 86400)
+  MAX_TIMESTAMP_AGE_DAYS?: string; // Allowed timestamp age outside /v1/import (default: 30)
+  MAX_BODY_BYTES?: string; // Decompressed request body limit (default: 5 MiB)
+  DEDUP?: KVNamespace; // KV binding for messageId deduplication (optional)
+  DEDUP_WINDOW_SECONDS?: string; // Deduplication window (default: 86400)
+  ENRICH_IP?: string; // "true" to fill context.ip from CF-Connecting-IP
+  ENRICH_GEO?: string; // "true" to add context.geo from request.cf
+  ENRICH_USER_AGENT?: string; // "false" to skip filling browser/OS/device from context.userAgent
+  TRACKING_PLAN_MODE?: string; // allow/warn/block for requests without a registered source
+  BOT_MODE?: string; // off/tag/drop for requests without a registered source (default: tag)
+  BOT_SCORE_THRESHOLD?: string; // request.cf.botManagement scores below this count as bots (default: 30)
+  BOT_IP_DENYLIST?: string; // Comma-separated IPs and IPv4 CIDR ranges treated as bots
+  CONSENT_POLICY?: string; // JSON consent policy for sources without their own (default: not enforced)
+  ADMIN_TOKEN?: string; // Bearer token for /admin/* routes
+  REDACTION_RULES?: string; // JSON array of PII redaction rules
+  REDACTION_SALT?: string; // Salt for hash redaction rules (secret)
+  PROMOTED_COLUMNS?: string; // JSON array of JSON fields to store as typed columns
+  WEBHOOK_MAPPINGS?: string; // JSON object of generic webhook adapters by name
+  WEBHOOK_SECRETS?: string; // JSON object of webhook signing secrets by adapter name (secret)
+  DESTINATION_SECRETS?: string; // JSON object of destination credentials by destination name (secret)
+  DB?: D1Database; // D1 binding for the source registry
+  DEAD_LETTER?: R2Bucket; // R2 binding for batches the pipeline rejected (optional)
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>; // Durable Object for per-key/per-IP rate limits
 }
 
 export interface IngestResponse {
   success: boolean;
   message?: string;
   count?: number;
+  duplicates?: number;
+  bots?: number;
+  /** Events dropped by transformation rules */
+  filtered?: number;
+  /** Events dropped for lack of consent */
+  consentDropped?: number;
+  deadLettered?: number;
   errors?: string[];
+  rejected?: RejectedEvent[];
+  blocked?: BlockedEvent[];
 }
 
-type IngestContext = Context<{ Bindings: IngestEnv }>;
+type IngestVariables = AuthVariables & BodyVariables;
+
+type IngestContext = Context<{ Bindings: IngestEnv; Variables: IngestVariables }>;
 
 /**
  * Create the Hono app for event ingestion
  */
 export function createIngestApp() {
-  const app = new Hono<{ Bindings: IngestEnv }>();
+  const app = new Hono<{ Bindings: IngestEnv; Variables: IngestVariables }>();
 
   // CORS middleware
   app.use("*", async (c, next) => {
@@ -43,24 +152,70 @@ export function createIngestApp() {
     const corsMiddleware = cors({
       origin: origins.includes("*") ? "*" : origins,
       allowMethods: ["POST", "OPTIONS"],
-      allowHeaders: ["Content-Type", "Authorization", "X-API-Key"],
+      allowHeaders: [
+        "Content-Type",
+        "Content-Encoding",
+        "Authorization",
+        "X-API-Key",
+      ],
       maxAge: 86400,
     });
     return corsMiddleware(c, next);
   });
 
-  // Auth middleware
+  // Admin routes - authenticated with ADMIN_TOKEN, registered before the
+  // ingest auth middleware so write keys are never accepted here
+  app.use("/admin/*", adminAuthMiddleware((c) => c.env?.ADMIN_TOKEN));
+  app.route("/admin/sources", createSourceRoutes());
+  app.route("/admin/tracking-plan", createTrackingPlanRoutes());
+  app.route("/admin/dead-letter", createDeadLetterRoutes());
+  app.route("/admin/rate-limits", createRateLimitRoutes());
+  app.route("/admin/consent", createConsentRoutes());
+  app.route("/admin/transformations", createTransformationRoutes());
+  app.route("/admin/destinations", createDestinationRoutes());
+
+  // Inbound webhooks - authenticated by the provider's signature, which is
+  // computed over the raw body, so these run before the body middleware
+  app.post("/v1/webhooks/:source", async (c) => {
+    return handleWebhookRequest(c, c.req.param("source"));
+  });
+
+  // Tracking pixel for email opens and <noscript> page views - authenticated
+  // by the handler, since it must answer with the GIF even on failure
+  app.get("/v1/pixel.gif", async (c) => {
+    return handlePixelRequest(c);
+  });
+
+  // Short alias
+  app.get("/v1/t", async (c) => {
+    return handlePixelRequest(c);
+  });
+
+  // Read POST bodies up front - sendBeacon requests carry the write key there
   app.use(
     "*",
-    authMiddleware((c) => ({
-      enabled: c.env?.AUTH_ENABLED === "true",
-      token: c.env?.AUTH_TOKEN,
-    })),
+    bodyMiddleware((c) => parseMaxBodyBytes(c.env?.MAX_BODY_BYTES)),
   );
 
+  // Auth middleware
+  app.use("*", authMiddleware(getAuthConfig));
+
   // Health check
   app.get("/health", (c) => c.json({ status: "ok" }));
 
+  // Throttle floods before any D1 lookups or event processing
+  app.use("*", async (c, next) => {
+    const body = c.get("body");
+    const limited = await checkRequestRateLimit(
+      c,
+      countRequestEvents(body?.success ? body.data : undefined),
+    );
+    if (limited) {
+      return limited;
+    }
+    await next();
+  });
+
   // Batch endpoint
   app.post("/v1/batch", async (c) => {
     return handleBatchRequest(c);
@@ -71,6 +226,16 @@ export function createIngestApp() {
     return handleBatchRequest(c);
   });
 
+  // Historical import - no clock-skew correction or age limit
+  app.post("/v1/import", async (c) => {
+    return handleBatchRequest(c, true);
+  });
+
+  // Also support /import without v1 prefix
+  app.post("/import", async (c) => {
+    return handleBatchRequest(c, true);
+  });
+
   // Single event endpoints
   const singleEventTypes = [
     "track",
@@ -92,49 +257,413 @@ export function createIngestApp() {
     });
   }
 
+  // Mixpanel and Amplitude compatible endpoints for legacy clients
+  // (Mixpanel clients call /track/ and /engage/ with a trailing slash)
+  for (const path of ["/mixpanel/track", "/mixpanel/track/"]) {
+    app.post(path, async (c) => {
+      return handleCompatRequest(c, translateMixpanelTrack);
+    });
+  }
+
+  for (const path of ["/mixpanel/engage", "/mixpanel/engage/"]) {
+    app.post(path, async (c) => {
+      return handleCompatRequest(c, translateMixpanelEngage);
+    });
+  }
+
+  app.post("/amplitude/2/httpapi", async (c) => {
+    return handleCompatRequest(c, translateAmplitudeBatch);
+  });
+
+  // GA4 Measurement Protocol - api_secret must be a registered source's write key
+  app.post("/mp/collect", async (c) => {
+    if (!c.env.DB) {
+      return c.json(
+        {
+          success: false,
+          message: "Source registry not configured (D1 binding missing)",
+        } satisfies IngestResponse,
+        500,
+      );
+    }
+    if (!c.get("source")) {
+      return c.json(
+        {
+          success: false,
+          message: "api_secret does not match an enabled source",
+        } satisfies IngestResponse,
+        401,
+      );
+    }
+    return handleCompatRequest(c, translateGa4Payload);
+  });
+
   return app;
 }
 
 /**
- * Handle batch request
+ * Charge a request against the rate limits
+ * Returns the 429 response if a limit is exceeded, otherwise null
  */
-async function handleBatchRequest(c: IngestContext) {
-  let body: unknown;
+async function checkRequestRateLimit(
+  c: IngestContext,
+  eventCount: number,
+): Promise<Response | null> {
+  if (!c.env.RATE_LIMITER) {
+    return null;
+  }
+
+  const source = c.get("source");
+  const limit = await checkRateLimits(
+    c.env.RATE_LIMITER,
+    parseRateLimits(c.env),
+    source?.id ?? DEFAULT_KEY_ID,
+    c.req.header("CF-Connecting-IP") ?? null,
+    eventCount,
+  );
+  if (limit.allowed) {
+    return null;
+  }
+
+  if (c.env.DB) {
+    c.executionCtx.waitUntil(
+      incrementMetrics(
+        createDb(c.env.DB),
+        source?.id,
+        THROTTLED_METRIC,
+        new Map([[limit.scope!, 1]]),
+      ).catch((err: Error) => {
+        console.error("[ingest] Failed to record throttle count:", err.message);
+      }),
+    );
+  }
+
+  c.header("Retry-After", String(limit.retryAfter));
+  return c.json(
+    {
+      success: false,
+      message: `Rate limit exceeded for this ${limit.scope === "ip" ? "IP address" : "write key"}`,
+    } satisfies IngestResponse,
+    429,
+  );
+}
+
+/**
+ * Auth settings for ingest routes
+ */
+function getAuthConfig(c: Context): AuthConfig {
+  return {
+    enabled: c.env?.AUTH_ENABLED === "true",
+    token: c.env?.AUTH_TOKEN,
+    sources: c.env?.DB ? createSourceResolver(createDb(c.env.DB)) : undefined,
+  };
+}
+
+/**
+ * Handle a Mixpanel, Amplitude or GA4 request
+ * Translated events are validated and flattened like a /v1/batch request.
+ * Untranslatable records fail the request in strict mode and are reported
+ * in `errors` in partial mode.
+ */
+async function handleCompatRequest(
+  c: IngestContext,
+  translate: (data: unknown) => TranslationResult,
+) {
+  const body = c.get("body");
+  if (!body.success) {
+    return c.json(
+      { success: false, message: body.message } satisfies IngestResponse,
+      body.status,
+    );
+  }
+
+  const mode = parseBatchMode(c.env.BATCH_MODE);
+  const translated = translate(body.data);
+  const errors = translated.errors.length > 0 ? translated.errors : undefined;
+  if (errors && mode === "strict") {
+    return c.json({ success: false, errors } satisfies IngestResponse, 400);
+  }
+
+  // e.g. only Mixpanel profile operations that have no identify equivalent
+  if (translated.events.length === 0) {
+    return c.json({ success: true, count: 0, errors } satisfies IngestResponse);
+  }
+
+  const result = processBatch(
+    { batch: translated.events },
+    { ...(await getProcessOptions(c)), mode },
+  );
+  if (!result.success) {
+    return c.json(
+      {
+        success: false,
+        errors: result.errors,
+        rejected: result.rejected,
+      } satisfies IngestResponse,
+      400,
+    );
+  }
+
+  return sendToPipeline(c, result.events, {
+    rejected: result.rejected,
+    errors,
+    filtered: result.dropped || undefined,
+  });
+}
+
+/**
+ * Handle tracking pixel request
+ * Always responds with the GIF - a broken image is worse than a lost event -
+ * so auth and processing failures are only logged
+ */
+async function handlePixelRequest(c: IngestContext) {
   try {
-    body = await c.req.json();
+    const failure = await authenticate(c, getAuthConfig(c));
+    if (failure) {
+      console.warn("[ingest] Pixel request not authenticated:", failure.message);
+      return pixelResponse();
+    }
+
+    if (await checkRequestRateLimit(c, 1)) {
+      console.warn("[ingest] Pixel request throttled");
+      return pixelResponse();
+    }
+
+    const data = decodePixelEvent(c.req.query());
+    if (!data || typeof data !== "object") {
+      console.warn("[ingest] Invalid pixel data parameter");
+      return pixelResponse();
+    }
+
+    const event = data as Record<string, unknown>;
+
+    // The pixel is fetched by the mail client or browser itself
+    const userAgent = c.req.header("User-Agent");
+    if (userAgent) {
+      const context = (event.context ?? {}) as Record<string, unknown>;
+      event.context = { ...context, userAgent: context.userAgent ?? userAgent };
+    }
+
+    const result = processSingleEvent(
+      event,
+      event.event ? "track" : "page",
+      await getProcessOptions(c),
+    );
+
+    if (result.success) {
+      const response = await sendToPipeline(c, result.events);
+      if (!response.ok) {
+        console.warn("[ingest] Pixel event not stored:", response.status);
+      }
+    } else {
+      console.warn("[ingest] Invalid pixel event:", result.errors.join("; "));
+    }
+  } catch (err) {
+    console.error("[ingest] Pixel event error:", (err as Error).message);
+  }
+
+  return pixelResponse();
+}
+
+/**
+ * Handle inbound webhook request
+ * Deliveries of unmapped types are acknowledged so the provider stops retrying
+ */
+async function handleWebhookRequest(c: IngestContext, name: string) {
+  const webhooks = parseWebhookConfig(c.env.WEBHOOK_MAPPINGS, c.env.WEBHOOK_SECRETS);
+  if (!webhooks.success) {
+    console.error("[ingest] Invalid webhook configuration:", webhooks.message);
+    return c.json(
+      {
+        success: false,
+        message: "Webhooks are misconfigured",
+      } satisfies IngestResponse,
+      500,
+    );
+  }
+
+  const adapter = Object.hasOwn(webhooks.config.adapters, name)
+    ? webhooks.config.adapters[name]
+    : undefined;
+  if (!adapter) {
+    return c.json(
+      {
+        success: false,
+        message: `Unknown webhook source: ${name}`,
+      } satisfies IngestResponse,
+      404,
+    );
+  }
+
+  const secret = webhooks.config.secrets[name];
+  if (!secret) {
+    console.error(`[ingest] No signing secret in WEBHOOK_SECRETS for ${name}`);
+    return c.json(
+      {
+        success: false,
+        message: "Webhook secret not configured",
+      } satisfies IngestResponse,
+      500,
+    );
+  }
+
+  const body = await readTextBody(c, parseMaxBodyBytes(c.env.MAX_BODY_BYTES));
+  if (!body.success) {
+    return c.json(
+      { success: false, message: body.message } satisfies IngestResponse,
+      body.status,
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body.text);
   } catch {
+    payload = undefined;
+  }
+
+  const request = {
+    body: body.text,
+    payload,
+    header: (header: string) => c.req.header(header),
+  };
+
+  if (!(await adapter.verify(request, secret))) {
+    return c.json(
+      {
+        success: false,
+        message: "Invalid webhook signature",
+      } satisfies IngestResponse,
+      401,
+    );
+  }
+
+  if (payload === undefined) {
     return c.json(
       { success: false, message: "Invalid JSON body" } satisfies IngestResponse,
       400,
     );
   }
 
-  const result = processBatch(body);
+  const events = adapter.map(request);
+  if (events.length === 0) {
+    return c.json({
+      success: true,
+      message: "Webhook type is not mapped",
+      count: 0,
+    } satisfies IngestResponse);
+  }
+
+  const limited = await checkRequestRateLimit(c, events.length);
+  if (limited) {
+    return limited;
+  }
+
+  for (const event of events) {
+    event.context = {
+      ...event.context,
+      webhook: { ...event.context?.webhook, source: name },
+    };
+  }
+
+  // A delivery without a customer is stored without an identity rather
+  // than rejected, which would make the provider retry it
+  const result = processBatch(
+    { batch: events },
+    {
+      ...(await getProcessOptions(c)),
+      mode: parseBatchMode(c.env.BATCH_MODE),
+      requireIdentity: false,
+    },
+  );
   if (!result.success) {
     return c.json(
-      { success: false, errors: result.errors } satisfies IngestResponse,
+      {
+        success: false,
+        errors: result.errors,
+        rejected: result.rejected,
+      } satisfies IngestResponse,
       400,
     );
   }
 
-  return sendToPipeline(c, result.events);
+  return sendToPipeline(c, result.events, {
+    rejected: result.rejected,
+    filtered: result.dropped || undefined,
+  });
+}
+
+/**
+ * Options shared by every ingest route
+ * Imports keep client timestamps and accept any age.
+ */
+async function getProcessOptions(c: IngestContext, isImport = false) {
+  return {
+    transformRules: c.env.DB
+      ? await loadTransformationRules(createDb(c.env.DB))
+      : undefined,
+    sourceId: c.get("source")?.id,
+    parseUserAgent: c.env.ENRICH_USER_AGENT !== "false",
+    correctClockSkew: !isImport && c.env.CORRECT_CLOCK_SKEW !== "false",
+    timestampPolicy: parseTimestampPolicy(
+      c.env.TIMESTAMP_POLICY,
+      c.env.MAX_TIMESTAMP_FUTURE_SECONDS,
+      c.env.MAX_TIMESTAMP_AGE_DAYS,
+      isImport,
+    ),
+  };
+}
+
+/**
+ * Handle batch (or import) request
+ */
+async function handleBatchRequest(c: IngestContext, isImport = false) {
+  const body = c.get("body");
+  if (!body.success) {
+    return c.json(
+      { success: false, message: body.message } satisfies IngestResponse,
+      body.status,
+    );
+  }
+
+  const result = processBatch(body.data, {
+    ...(await getProcessOptions(c, isImport)),
+    mode: parseBatchMode(c.env.BATCH_MODE),
+  });
+  if (!result.success) {
+    return c.json(
+      {
+        success: false,
+        errors: result.errors,
+        rejected: result.rejected,
+      } satisfies IngestResponse,
+      400,
+    );
+  }
+
+  return sendToPipeline(c, result.events, {
+    rejected: result.rejected,
+    filtered: result.dropped || undefined,
+  });
 }
 
 /**
  * Handle single event request
  */
 async function handleSingleEventRequest(c: IngestContext, eventType: string) {
-  let body: unknown;
-  try {
-    body = await c.req.json();
-  } catch {
+  const body = c.get("body");
+  if (!body.success) {
     return c.json(
-      { success: false, message: "Invalid JSON body" } satisfies IngestResponse,
-      400,
+      { success: false, message: body.message } satisfies IngestResponse,
+      body.status,
     );
   }
 
-  const result = processSingleEvent(body, eventType);
+  const result = processSingleEvent(
+    body.data,
+    eventType,
+    await getProcessOptions(c),
+  );
   if (!result.success) {
     return c.json(
       { success: false, errors: result.errors } satisfies IngestResponse,
@@ -142,13 +671,38 @@ async function handleSingleEventRequest(c: IngestContext, eventType: string) {
     );
   }
 
-  return sendToPipeline(c, result.events);
+  return sendToPipeline(c, result.events, {
+    filtered: result.dropped || undefined,
+  });
+}
+
+/**
+ * Forward accepted events to the configured destinations after the response
+ */
+function forwardToDestinations(c: IngestContext, events: FlattenedEvent[]) {
+  if (!c.env.DB) return;
+
+  const db = createDb(c.env.DB);
+  c.executionCtx.waitUntil(
+    loadDestinations(db)
+      .then((destinations) =>
+        forwardEvents(db, destinations, events, c.env.DESTINATION_SECRETS),
+      )
+      .catch((err: Error) => {
+        console.error("[ingest] Failed to forward events:", err.message);
+      }),
+  );
 }
 
 /**
  * Send events to pipeline
+ * `extra` fields are merged into the success response
  */
-async function sendToPipeline(c: IngestContext, events: FlattenedEvent[]) {
+async function sendToPipeline(
+  c: IngestContext,
+  events: FlattenedEvent[],
+  extra: Partial<IngestResponse> = {},
+) {
   // Check if pipeline binding exists
   if (!c.env.PIPELINE) {
     console.error("PIPELINE binding is not configured");
@@ -161,14 +715,244 @@ async function sendToPipeline(c: IngestContext, events: FlattenedEvent[]) {
     );
   }
 
+  // Every event was dropped by transformation rules
+  if (events.length === 0) {
+    return c.json({ success: true, count: 0, ...extra } satisfies IngestResponse);
+  }
+
+  const source = c.get("source");
+
+  // Add server-side IP and geo context
+  events = enrichEvents(
+    events,
+    getRequestEnrichment(c, {
+      ip: c.env.ENRICH_IP === "true",
+      geo: c.env.ENRICH_GEO === "true",
+    }),
+  );
+
+  // Store, anonymize or drop events according to the user's consent -
+  // fail closed on bad configuration
+  let consentDropped: number | undefined;
+  const consent = parseConsentPolicy(c.env.CONSENT_POLICY);
+  if (!consent.success) {
+    console.error("[ingest] Invalid CONSENT_POLICY:", consent.message);
+    return c.json(
+      {
+        success: false,
+        message: "Consent policy is misconfigured",
+      } satisfies IngestResponse,
+      500,
+    );
+  }
+  const consentPolicy = source?.consentPolicy ?? consent.policy;
+  if (consentPolicy) {
+    const result = filterConsent(events, consentPolicy);
+    events = result.events;
+    consentDropped = result.dropped > 0 ? result.dropped : undefined;
+
+    if (c.env.DB) {
+      c.executionCtx.waitUntil(
+        incrementMetrics(createDb(c.env.DB), source?.id, CONSENT_METRIC, result.decisionCounts).catch(
+          (err: Error) => {
+            console.error("[ingest] Failed to record consent decisions:", err.message);
+          },
+        ),
+      );
+    }
+
+    if (events.length === 0) {
+      return c.json({
+        success: true,
+        count: 0,
+        consentDropped,
+        ...extra,
+      } satisfies IngestResponse);
+    }
+  }
+
+  // Tag or drop events from crawlers and other automated clients
+  let bots: number | undefined;
+  const botMode = source?.botMode ?? parseBotMode(c.env.BOT_MODE);
+  if (botMode !== "off") {
+    const result = filterBots(
+      events,
+      getRequestBotSignals(c, parseBotScoreThreshold(c.env.BOT_SCORE_THRESHOLD)),
+      parseIpDenylist(c.env.BOT_IP_DENYLIST),
+      botMode,
+    );
+    events = result.events;
+    bots = result.dropped > 0 ? result.dropped : undefined;
+
+    if (c.env.DB && result.reasonCounts.size > 0) {
+      c.executionCtx.waitUntil(
+        incrementMetrics(createDb(c.env.DB), source?.id, BOT_METRIC, result.reasonCounts).catch(
+          (err: Error) => {
+            console.error("[ingest] Failed to record bot counts:", err.message);
+          },
+        ),
+      );
+    }
+
+    // Nothing left to send
+    if (events.length === 0) {
+      return c.json({
+        success: true,
+        count: 0,
+        bots,
+        consentDropped,
+        ...extra,
+      } satisfies IngestResponse);
+    }
+  }
+
+  // Check events against the tracking plan
+  let blocked: BlockedEvent[] | undefined;
+  const trackingPlanMode =
+    source?.trackingPlanMode ?? parseTrackingPlanMode(c.env.TRACKING_PLAN_MODE);
+  if (c.env.DB && trackingPlanMode !== "allow") {
+    const db = createDb(c.env.DB);
+    const plan = await loadTrackingPlan(db);
+    const result = enforceTrackingPlan(events, plan, trackingPlanMode);
+    events = result.events;
+    blocked = result.blocked.length > 0 ? result.blocked : undefined;
+
+    c.executionCtx.waitUntil(
+      incrementMetrics(db, source?.id, VIOLATION_METRIC, result.violationCounts).catch(
+        (err: Error) => {
+          console.error("[ingest] Failed to record violation counts:", err.message);
+        },
+      ),
+    );
+
+    if (events.length === 0) {
+      return c.json(
+        {
+          success: false,
+          message: "All events violate the tracking plan",
+          bots,
+          consentDropped,
+          blocked,
+          ...extra,
+        } satisfies IngestResponse,
+        400,
+      );
+    }
+  }
+
+  // Redact PII before anything is written - fail closed on bad configuration
+  const redaction = parseRedactionRules(c.env.REDACTION_RULES);
+  if (!redaction.success) {
+    console.error("[ingest] Invalid REDACTION_RULES:", redaction.message);
+    return c.json(
+      {
+        success: false,
+        message: "Redaction rules are misconfigured",
+      } satisfies IngestResponse,
+      500,
+    );
+  }
   try {
-    await c.env.PIPELINE.send(events);
+    events = await redactEvents(events, redaction.rules, c.env.REDACTION_SALT);
+  } catch (err) {
+    console.error("[ingest] Redaction error:", (err as Error).message);
+    return c.json(
+      {
+        success: false,
+        message: "Redaction rules are misconfigured",
+      } satisfies IngestResponse,
+      500,
+    );
+  }
+
+  // Promote configured fields from the enriched, anonymized and redacted JSON
+  const promoted = parsePromotedColumns(c.env.PROMOTED_COLUMNS);
+  if (!promoted.success) {
+    console.error("[ingest] Invalid PROMOTED_COLUMNS:", promoted.message);
+    return c.json(
+      {
+        success: false,
+        message: "Promoted columns are misconfigured",
+      } satisfies IngestResponse,
+      500,
+    );
+  }
+  events = events.map((event) => promoteColumns(event, promoted.columns));
+
+  // Drop messageIds already accepted within the deduplication window
+  const dedup = c.env.DEDUP;
+  let duplicates: number | undefined;
+  if (dedup) {
+    try {
+      const result = await filterDuplicates(dedup, events);
+      events = result.events;
+      duplicates = result.duplicates;
+    } catch (err) {
+      // Fail open: a KV outage should not stop ingestion
+      console.error(
+        "[ingest] Dedup unavailable, accepting events:",
+        (err as Error).message,
+      );
+    }
+
+    if (events.length === 0) {
+      return c.json({
+        success: true,
+        count: 0,
+        duplicates,
+        bots,
+        consentDropped,
+        blocked,
+        ...extra,
+      } satisfies IngestResponse);
+    }
+  }
+
+  // integrations only picks destinations; it is not stored
+  const stored = events.map(toStoredEvent);
+
+  try {
+    await c.env.PIPELINE.send(stored);
     console.log(
       `[ingest] Successfully sent ${events.length} events to pipeline`,
     );
   } catch (err) {
     const error = err as Error;
     console.error("[ingest] Pipeline send error:", error.message, error.stack);
+
+    // Keep the batch for replay so senders that don't retry lose nothing
+    if (c.env.DEAD_LETTER) {
+      try {
+        // Destinations get these events when they are replayed
+        const key = await writeDeadLetter(
+          c.env.DEAD_LETTER,
+          events,
+          error.message,
+          c.get("source")?.id ?? null,
+        );
+        console.log(`[ingest] Stored ${events.length} events in ${key}`);
+        return c.json(
+          {
+            success: true,
+            message: "Pipeline unavailable; events stored for replay",
+            count: 0,
+            deadLettered: events.length,
+            duplicates,
+            bots,
+            consentDropped,
+            blocked,
+            ...extra,
+          } satisfies IngestResponse,
+          202,
+        );
+      } catch (dlqErr) {
+        console.error(
+          "[ingest] Dead-letter write error:",
+          (dlqErr as Error).message,
+        );
+      }
+    }
+
     return c.json(
       {
         success: false,
@@ -178,8 +962,24 @@ async function sendToPipeline(c: IngestContext, events: FlattenedEvent[]) {
     );
   }
 
+  forwardToDestinations(c, events);
+
+  if (dedup) {
+    const window = parseDedupWindow(c.env.DEDUP_WINDOW_SECONDS);
+    c.executionCtx.waitUntil(
+      markAccepted(dedup, events, window).catch((err: Error) => {
+        console.error("[ingest] Failed to record message IDs:", err.message);
+      }),
+    );
+  }
+
   return c.json({
     success: true,
     count: events.length,
+    duplicates,
+    bots,
+    consentDropped,
+    blocked,
+    ...extra,
   } satisfies IngestResponse);
 }
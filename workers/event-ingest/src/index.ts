@@ -1,3 +1,5 @@
 import { createIngestApp } from './handler.js';
 
+export { RateLimiter } from './rate-limit/limiter.js';
+
 export default createIngestApp();
@@ -0,0 +1,69 @@
+/**
+ * Daily ingest counters stored in D1
+ */
+import { and, gte, eq, sql, desc } from 'drizzle-orm';
+import type { Database } from './db/index.js';
+import { ingestMetrics } from './db/schema.js';
+
+/** D1 allows 100 bound parameters per statement; each row binds 5 */
+const ROWS_PER_INSERT = 20;
+
+export interface MetricRow {
+  day: string;
+  sourceId: string;
+  metric: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Current UTC day as YYYY-MM-DD
+ */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Add to today's counters for a metric, keyed by label
+ */
+export async function incrementMetrics(
+  db: Database,
+  sourceId: string | null | undefined,
+  metric: string,
+  counts: Map<string, number>
+): Promise<void> {
+  if (counts.size === 0) return;
+
+  const day = today();
+  const rows = Array.from(counts, ([label, count]) => ({
+    day,
+    sourceId: sourceId ?? '',
+    metric,
+    label,
+    count,
+  }));
+
+  for (let i = 0; i < rows.length; i += ROWS_PER_INSERT) {
+    await db
+      .insert(ingestMetrics)
+      .values(rows.slice(i, i + ROWS_PER_INSERT))
+      .onConflictDoUpdate({
+        target: [ingestMetrics.day, ingestMetrics.sourceId, ingestMetrics.metric, ingestMetrics.label],
+        set: { count: sql`${ingestMetrics.count} + excluded.count` },
+      });
+  }
+}
+
+/**
+ * Read counters for a metric over the last `days` days (including today)
+ */
+export async function queryMetrics(db: Database, metric: string, days: number): Promise<MetricRow[]> {
+  const since = new Date(Date.now() - (days - 1) * 86400000).toISOString().slice(0, 10);
+
+  return db
+    .select()
+    .from(ingestMetrics)
+    .where(and(eq(ingestMetrics.metric, metric), gte(ingestMetrics.day, since)))
+    .orderBy(desc(ingestMetrics.day), desc(ingestMetrics.count));
+}
+
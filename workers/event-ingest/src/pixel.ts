@@ -0,0 +1,65 @@
+/**
+ * Tracking pixel support (email opens, <noscript> page views)
+ *
+ * Events arrive as GET query parameters, either as a base64-encoded JSON event
+ * in `data` or as individual fields:
+ *
+ *   /v1/pixel.gif?data=eyJ1c2VySWQiOiJ1LTEiLCJldmVudCI6IkVtYWlsIE9wZW5lZCJ9
+ *   /v1/pixel.gif?userId=u-1&event=Email%20Opened&properties.campaign=spring
+ */
+
+import { decodeBase64Json } from './body.js';
+
+/** 1x1 transparent GIF */
+const PIXEL_GIF = Uint8Array.from(
+  atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'),
+  char => char.charCodeAt(0)
+);
+
+/** Top-level event fields accepted as query parameters */
+const EVENT_FIELDS = ['type', 'event', 'name', 'userId', 'anonymousId', 'groupId', 'messageId', 'timestamp'];
+
+/** Object fields accepted as `<field>.<key>=value` query parameters */
+const OBJECT_FIELDS = ['properties', 'traits', 'context'];
+
+/**
+ * Build an event from pixel query parameters
+ * Returns undefined if `data` is present but cannot be decoded
+ */
+export function decodePixelEvent(query: Record<string, string>): unknown {
+  if (query.data !== undefined) {
+    return decodeBase64Json(query.data);
+  }
+
+  const event: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(query)) {
+    if (EVENT_FIELDS.includes(key)) {
+      event[key] = value;
+      continue;
+    }
+
+    const dot = key.indexOf('.');
+    const field = key.slice(0, dot);
+    if (dot > 0 && OBJECT_FIELDS.includes(field)) {
+      const target = (event[field] ??= {}) as Record<string, unknown>;
+      target[key.slice(dot + 1)] = value;
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Response carrying the pixel image, never cached so every open is counted
+ */
+export function pixelResponse(): Response {
+  return new Response(PIXEL_GIF, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-cache, no-store, must-revalidate, private',
+      Pragma: 'no-cache',
+      Expires: '0',
+    },
+  });
+}
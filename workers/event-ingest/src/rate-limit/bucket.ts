@@ -0,0 +1,139 @@
+/**
+ * Token buckets used by the rate limiter Durable Object
+ */
+
+export interface RateLimits {
+  /** Sustained events per second (null for no limit) */
+  eventsPerSecond: number | null;
+  /** Requests per minute (null for no limit) */
+  requestsPerMinute: number | null;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Seconds to wait before retrying (0 when allowed) */
+  retryAfter: number;
+}
+
+export interface BucketState {
+  /** Tokens currently available (negative while paying off an oversized request) */
+  tokens: number;
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucket extends BucketState {
+  updatedAt: number;
+}
+
+/**
+ * Create a full bucket
+ */
+export function createBucket(capacity: number, refillPerSecond: number, now: number): TokenBucket {
+  return { tokens: capacity, capacity, refillPerSecond, updatedAt: now };
+}
+
+/**
+ * Add the tokens earned since the last update, picking up any limit changes
+ */
+export function refill(bucket: TokenBucket, capacity: number, refillPerSecond: number, now: number): void {
+  const elapsed = Math.max(now - bucket.updatedAt, 0) / 1000;
+  bucket.capacity = capacity;
+  bucket.refillPerSecond = refillPerSecond;
+  bucket.tokens = Math.min(bucket.tokens + elapsed * refillPerSecond, capacity);
+  bucket.updatedAt = now;
+}
+
+/**
+ * Seconds until `cost` tokens can be taken (0 if they can be taken now)
+ *
+ * A cost larger than the capacity only needs a full bucket, and then leaves
+ * it in debt - otherwise a large batch could never be accepted.
+ */
+export function waitSeconds(bucket: TokenBucket, cost: number): number {
+  const needed = Math.min(cost, bucket.capacity);
+  return bucket.tokens >= needed ? 0 : (needed - bucket.tokens) / bucket.refillPerSecond;
+}
+
+/**
+ * Snapshot of a bucket for the admin API
+ */
+export function toBucketState(bucket: TokenBucket): BucketState {
+  return {
+    tokens: Math.round(bucket.tokens * 100) / 100,
+    capacity: bucket.capacity,
+    refillPerSecond: bucket.refillPerSecond,
+  };
+}
+
+export interface RateLimiterState {
+  events: BucketState | null;
+  requests: BucketState | null;
+  throttled: number;
+}
+
+/**
+ * The events-per-second and requests-per-minute buckets of one write key or
+ * client IP
+ */
+export class RateLimitBuckets {
+  private events: TokenBucket | null = null;
+  private requests: TokenBucket | null = null;
+  private throttled = 0;
+
+  /**
+   * Take one request and `eventCount` events, or nothing if either bucket is short
+   */
+  consume(limits: RateLimits, eventCount: number, now: number): RateLimitDecision {
+    this.events = this.sync(this.events, limits.eventsPerSecond, limits.eventsPerSecond ?? 0, now);
+    this.requests = this.sync(this.requests, limits.requestsPerMinute, (limits.requestsPerMinute ?? 0) / 60, now);
+
+    const wait = Math.max(
+      this.events ? waitSeconds(this.events, eventCount) : 0,
+      this.requests ? waitSeconds(this.requests, 1) : 0
+    );
+
+    if (wait > 0) {
+      this.throttled++;
+      return { allowed: false, retryAfter: Math.ceil(wait) };
+    }
+
+    if (this.events) this.events.tokens -= eventCount;
+    if (this.requests) this.requests.tokens -= 1;
+
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  /**
+   * Give back what consume() took, for a request another limit rejected
+   */
+  refund(eventCount: number, now: number): void {
+    for (const [bucket, cost] of [[this.events, eventCount], [this.requests, 1]] as const) {
+      if (!bucket) continue;
+      refill(bucket, bucket.capacity, bucket.refillPerSecond, now);
+      bucket.tokens = Math.min(bucket.tokens + cost, bucket.capacity);
+    }
+  }
+
+  /**
+   * Current bucket levels, for the admin API
+   */
+  inspect(now: number): RateLimiterState {
+    if (this.events) refill(this.events, this.events.capacity, this.events.refillPerSecond, now);
+    if (this.requests) refill(this.requests, this.requests.capacity, this.requests.refillPerSecond, now);
+
+    return {
+      events: this.events ? toBucketState(this.events) : null,
+      requests: this.requests ? toBucketState(this.requests) : null,
+      throttled: this.throttled,
+    };
+  }
+
+  private sync(bucket: TokenBucket | null, capacity: number | null, refillPerSecond: number, now: number): TokenBucket | null {
+    if (!capacity) return null;
+    if (!bucket) return createBucket(capacity, refillPerSecond, now);
+
+    refill(bucket, capacity, refillPerSecond, now);
+    return bucket;
+  }
+}
@@ -0,0 +1,113 @@
+import type { RateLimiter, RateLimitDecision, RateLimits } from './limiter.js';
+
+export const THROTTLED_METRIC = 'rate_limit.throttled';
+
+/** Rate limiter instance used for requests without a registered source */
+export const DEFAULT_KEY_ID = 'default';
+
+export type RateLimitScope = 'key' | 'ip';
+
+export interface RateLimitConfig {
+  key: RateLimits;
+  ip: RateLimits;
+}
+
+/**
+ * Rate limit settings read from the environment
+ */
+export interface RateLimitEnv {
+  RATE_LIMIT_KEY_EVENTS_PER_SECOND?: string;
+  RATE_LIMIT_KEY_REQUESTS_PER_MINUTE?: string;
+  RATE_LIMIT_IP_EVENTS_PER_SECOND?: string;
+  RATE_LIMIT_IP_REQUESTS_PER_MINUTE?: string;
+}
+
+export interface RateLimitResult extends RateLimitDecision {
+  /** Which limit the request exceeded */
+  scope?: RateLimitScope;
+}
+
+function parseLimit(value: string | undefined): number | null {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Parse rate limits; unset or invalid values mean no limit
+ */
+export function parseRateLimits(env: RateLimitEnv): RateLimitConfig {
+  return {
+    key: {
+      eventsPerSecond: parseLimit(env.RATE_LIMIT_KEY_EVENTS_PER_SECOND),
+      requestsPerMinute: parseLimit(env.RATE_LIMIT_KEY_REQUESTS_PER_MINUTE),
+    },
+    ip: {
+      eventsPerSecond: parseLimit(env.RATE_LIMIT_IP_EVENTS_PER_SECOND),
+      requestsPerMinute: parseLimit(env.RATE_LIMIT_IP_REQUESTS_PER_MINUTE),
+    },
+  };
+}
+
+function hasLimits(limits: RateLimits): boolean {
+  return limits.eventsPerSecond !== null || limits.requestsPerMinute !== null;
+}
+
+/**
+ * Get the rate limiter instance for a write key (source ID) or client IP
+ */
+export function getLimiter(namespace: DurableObjectNamespace<RateLimiter>, scope: RateLimitScope, id: string) {
+  return namespace.get(namespace.idFromName(`${scope}:${id}`));
+}
+
+/**
+ * Number of events in a request body, counted before validation: a batch or
+ * Mixpanel array counts its items, Amplitude and GA4 bodies their `events`,
+ * and anything else is one event
+ */
+export function countRequestEvents(data: unknown): number {
+  if (Array.isArray(data)) return Math.max(data.length, 1);
+
+  const { batch, events } = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const items = Array.isArray(batch) ? batch : Array.isArray(events) ? events : null;
+  return items ? Math.max(items.length, 1) : 1;
+}
+
+/**
+ * Check a request against the per-IP and per-key limits
+ *
+ * The IP limit is checked first and the key limit only once it passes, so a
+ * single flooding client cannot drain the budget shared by everyone using the
+ * same write key. When the key limit rejects a request, its IP tokens are
+ * given back.
+ *
+ * Fails open: if the limiter cannot be reached the request is allowed, so a
+ * rate limiter outage never turns into an ingest outage.
+ */
+export async function checkRateLimits(
+  namespace: DurableObjectNamespace<RateLimiter>,
+  config: RateLimitConfig,
+  keyId: string,
+  ip: string | null,
+  eventCount: number
+): Promise<RateLimitResult> {
+  const checks: Array<[RateLimitScope, string, RateLimits]> = [];
+  if (ip && hasLimits(config.ip)) checks.push(['ip', ip, config.ip]);
+  if (hasLimits(config.key)) checks.push(['key', keyId, config.key]);
+
+  const charged: Array<ReturnType<typeof getLimiter>> = [];
+  try {
+    for (const [scope, id, limits] of checks) {
+      const limiter = getLimiter(namespace, scope, id);
+      const decision = await limiter.consume(limits, eventCount);
+      if (!decision.allowed) {
+        await Promise.all(charged.map(charge => charge.refund(eventCount)));
+        return { ...decision, scope };
+      }
+      charged.push(limiter);
+    }
+  } catch (err) {
+    console.error('[rate-limit] Limiter unavailable, allowing request:', (err as Error).message);
+  }
+
+  return { allowed: true, retryAfter: 0 };
+}
@@ -0,0 +1,41 @@
+/**
+ * Rate limiter Durable Object
+ *
+ * One instance per write key or client IP (the instance name). Each holds an
+ * events-per-second and a requests-per-minute token bucket in memory; an
+ * evicted instance simply starts again with full buckets.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import {
+  RateLimitBuckets,
+  type RateLimitDecision,
+  type RateLimiterState,
+  type RateLimits,
+} from './bucket.js';
+
+export type { RateLimitDecision, RateLimiterState, RateLimits };
+
+export class RateLimiter extends DurableObject {
+  private buckets = new RateLimitBuckets();
+
+  /**
+   * Take one request and `eventCount` events, or nothing if either bucket is short
+   */
+  consume(limits: RateLimits, eventCount: number): RateLimitDecision {
+    return this.buckets.consume(limits, eventCount, Date.now());
+  }
+
+  /**
+   * Give back what consume() took, for a request another limit rejected
+   */
+  refund(eventCount: number): void {
+    this.buckets.refund(eventCount, Date.now());
+  }
+
+  /**
+   * Current bucket levels, for the admin API
+   */
+  inspect(): RateLimiterState {
+    return this.buckets.inspect(Date.now());
+  }
+}
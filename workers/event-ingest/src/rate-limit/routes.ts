@@ -0,0 +1,71 @@
+/**
+ * Rate limit admin routes for Hono
+ */
+import { Hono } from 'hono';
+import { createDb } from '../db/index.js';
+import { queryMetrics } from '../metrics.js';
+import type { RateLimiter } from './limiter.js';
+import {
+  getLimiter,
+  parseRateLimits,
+  THROTTLED_METRIC,
+  type RateLimitEnv,
+  type RateLimitScope,
+} from './check.js';
+
+/**
+ * Environment type for rate limit routes
+ */
+interface RateLimitRoutesEnv extends RateLimitEnv {
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>;
+  DB?: D1Database;
+}
+
+/**
+ * Create rate limit routes
+ */
+export function createRateLimitRoutes() {
+  const app = new Hono<{ Bindings: RateLimitRoutesEnv }>();
+
+  // Middleware to check Durable Object binding
+  app.use('*', async (c, next) => {
+    if (!c.env.RATE_LIMITER) {
+      return c.json({ success: false, error: 'Rate limiting not configured (RATE_LIMITER binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // GET /admin/rate-limits?days=7 - Configured limits and daily throttle counts
+  app.get('/', async (c) => {
+    const days = Math.min(Math.max(parseInt(c.req.query('days') ?? '7', 10) || 7, 1), 90);
+    const rows = c.env.DB ? await queryMetrics(createDb(c.env.DB), THROTTLED_METRIC, days) : [];
+
+    return c.json({
+      success: true,
+      data: {
+        limits: parseRateLimits(c.env),
+        throttled: rows.map(row => ({
+          day: row.day,
+          sourceId: row.sourceId || null,
+          scope: row.label,
+          count: row.count,
+        })),
+      },
+    });
+  });
+
+  // GET /admin/rate-limits/:scope/:id - Current buckets for a source ID (key) or client IP (ip)
+  app.get('/:scope/:id', async (c) => {
+    const scope = c.req.param('scope');
+    if (scope !== 'key' && scope !== 'ip') {
+      return c.json({ success: false, error: 'scope must be one of: key, ip' }, 400);
+    }
+
+    const limiter = getLimiter(c.env.RATE_LIMITER!, scope as RateLimitScope, c.req.param('id'));
+    const state = await limiter.inspect();
+
+    return c.json({ success: true, data: state });
+  });
+
+  return app;
+}
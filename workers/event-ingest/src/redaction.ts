@@ -0,0 +1,50 @@
+import {
+  applyRedactionRules,
+  validateRedactionRules,
+  type FlattenedEvent,
+  type RedactionRule,
+} from '@icelight/core';
+
+export type RedactionConfig =
+  | { success: true; rules: RedactionRule[] }
+  | { success: false; message: string };
+
+// Parsed rules keyed by the raw REDACTION_RULES value (per isolate)
+let cached: { raw: string; config: RedactionConfig } | undefined;
+
+/**
+ * Parse a REDACTION_RULES value (a JSON array of rules)
+ */
+export function parseRedactionRules(raw: string | undefined): RedactionConfig {
+  if (!raw?.trim()) {
+    return { success: true, rules: [] };
+  }
+  if (cached?.raw === raw) {
+    return cached.config;
+  }
+
+  let config: RedactionConfig;
+  try {
+    const rules: unknown = JSON.parse(raw);
+    const validation = validateRedactionRules(rules);
+    config = validation.valid
+      ? { success: true, rules: rules as RedactionRule[] }
+      : { success: false, message: validation.errors.join('; ') };
+  } catch {
+    config = { success: false, message: 'REDACTION_RULES is not valid JSON' };
+  }
+
+  cached = { raw, config };
+  return config;
+}
+
+/**
+ * Apply redaction rules to every event in a request
+ */
+export function redactEvents(
+  events: FlattenedEvent[],
+  rules: RedactionRule[],
+  salt: string | undefined
+): Promise<FlattenedEvent[]> {
+  return Promise.all(events.map(event => applyRedactionRules(event, rules, { salt })));
+}
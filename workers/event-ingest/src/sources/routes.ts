@@ -0,0 +1,239 @@
+/**
+ * Source registry admin routes for Hono
+ */
+import { Hono } from 'hono';
+import { asc, eq } from 'drizzle-orm';
+import { validateConsentPolicy } from '@icelight/core';
+import { createDb } from '../db/index.js';
+import { sources } from '../db/schema.js';
+import type {
+  CreateSourceInput,
+  UpdateSourceInput,
+  SourceListResponse,
+  SourceResponse,
+} from './types.js';
+import {
+  generateSourceId,
+  generateWriteKey,
+  hashWriteKey,
+  writeKeyPrefix,
+  toSourceRecord,
+} from './store.js';
+
+/**
+ * Environment type for source routes
+ */
+interface SourcesEnv {
+  DB?: D1Database;
+}
+
+const TRACKING_PLAN_MODES = ['allow', 'warn', 'block'] as const;
+const BOT_MODES = ['off', 'tag', 'drop'] as const;
+
+/**
+ * Get current ISO timestamp
+ */
+function now(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * Create source registry routes
+ */
+export function createSourceRoutes() {
+  const app = new Hono<{ Bindings: SourcesEnv }>();
+
+  // Middleware to check D1 binding
+  app.use('*', async (c, next) => {
+    if (!c.env.DB) {
+      return c.json({ success: false, error: 'Source registry not configured (D1 binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // GET /admin/sources - List all sources
+  app.get('/', async (c) => {
+    const db = createDb(c.env.DB!);
+
+    const rows = await db
+      .select()
+      .from(sources)
+      .orderBy(asc(sources.createdAt));
+
+    return c.json({ success: true, data: rows.map(toSourceRecord) } satisfies SourceListResponse);
+  });
+
+  // GET /admin/sources/:id - Get a specific source
+  app.get('/:id', async (c) => {
+    const id = c.req.param('id');
+    const db = createDb(c.env.DB!);
+
+    const rows = await db
+      .select()
+      .from(sources)
+      .where(eq(sources.id, id))
+      .limit(1);
+
+    if (rows.length === 0) {
+      return c.json({ success: false, error: 'Source not found' } satisfies SourceResponse, 404);
+    }
+
+    return c.json({ success: true, data: toSourceRecord(rows[0]) } satisfies SourceResponse);
+  });
+
+  // POST /admin/sources - Create a new source and return its write key
+  app.post('/', async (c) => {
+    let body: CreateSourceInput;
+    try {
+      body = await c.req.json<CreateSourceInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies SourceResponse, 400);
+    }
+
+    if (!body.name || typeof body.name !== 'string') {
+      return c.json({ success: false, error: 'Name is required' } satisfies SourceResponse, 400);
+    }
+
+    if (body.trackingPlanMode !== undefined && !TRACKING_PLAN_MODES.includes(body.trackingPlanMode)) {
+      return c.json({ success: false, error: `trackingPlanMode must be one of: ${TRACKING_PLAN_MODES.join(', ')}` } satisfies SourceResponse, 400);
+    }
+
+    if (body.botMode !== undefined && !BOT_MODES.includes(body.botMode)) {
+      return c.json({ success: false, error: `botMode must be one of: ${BOT_MODES.join(', ')}` } satisfies SourceResponse, 400);
+    }
+
+    if (body.consentPolicy !== undefined && body.consentPolicy !== null) {
+      const validation = validateConsentPolicy(body.consentPolicy);
+      if (!validation.valid) {
+        return c.json({ success: false, error: `Invalid consentPolicy: ${validation.errors.join('; ')}` } satisfies SourceResponse, 400);
+      }
+    }
+
+    const db = createDb(c.env.DB!);
+    const writeKey = generateWriteKey();
+    const timestamp = now();
+
+    const newSource = {
+      id: generateSourceId(),
+      name: body.name,
+      writeKeyHash: await hashWriteKey(writeKey),
+      writeKeyPrefix: writeKeyPrefix(writeKey),
+      enabled: body.enabled ?? true,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      lastUsedAt: null,
+      revokedAt: null,
+      trackingPlanMode: body.trackingPlanMode ?? 'allow',
+      botMode: body.botMode ?? 'tag',
+      consentPolicy: body.consentPolicy ?? null,
+    };
+
+    await db.insert(sources).values(newSource);
+
+    return c.json({ success: true, data: toSourceRecord(newSource), writeKey } satisfies SourceResponse, 201);
+  });
+
+  // PATCH /admin/sources/:id - Rename, enable/disable or change a source's settings
+  app.patch('/:id', async (c) => {
+    const id = c.req.param('id');
+
+    let body: UpdateSourceInput;
+    try {
+      body = await c.req.json<UpdateSourceInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies SourceResponse, 400);
+    }
+
+    if (body.trackingPlanMode !== undefined && !TRACKING_PLAN_MODES.includes(body.trackingPlanMode)) {
+      return c.json({ success: false, error: `trackingPlanMode must be one of: ${TRACKING_PLAN_MODES.join(', ')}` } satisfies SourceResponse, 400);
+    }
+
+    if (body.botMode !== undefined && !BOT_MODES.includes(body.botMode)) {
+      return c.json({ success: false, error: `botMode must be one of: ${BOT_MODES.join(', ')}` } satisfies SourceResponse, 400);
+    }
+
+    if (body.consentPolicy !== undefined && body.consentPolicy !== null) {
+      const validation = validateConsentPolicy(body.consentPolicy);
+      if (!validation.valid) {
+        return c.json({ success: false, error: `Invalid consentPolicy: ${validation.errors.join('; ')}` } satisfies SourceResponse, 400);
+      }
+    }
+
+    const db = createDb(c.env.DB!);
+
+    const existing = await db
+      .select()
+      .from(sources)
+      .where(eq(sources.id, id))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return c.json({ success: false, error: 'Source not found' } satisfies SourceResponse, 404);
+    }
+
+    if (existing[0].revokedAt && body.enabled) {
+      return c.json({ success: false, error: 'Revoked sources cannot be re-enabled; rotate the key instead' } satisfies SourceResponse, 409);
+    }
+
+    const updates: Partial<typeof sources.$inferInsert> = { updatedAt: now() };
+    if (body.name !== undefined) updates.name = body.name;
+    if (body.enabled !== undefined) updates.enabled = body.enabled;
+    if (body.trackingPlanMode !== undefined) updates.trackingPlanMode = body.trackingPlanMode;
+    if (body.botMode !== undefined) updates.botMode = body.botMode;
+    if (body.consentPolicy !== undefined) updates.consentPolicy = body.consentPolicy;
+
+    const [updated] = await db
+      .update(sources)
+      .set(updates)
+      .where(eq(sources.id, id))
+      .returning();
+
+    return c.json({ success: true, data: toSourceRecord(updated) } satisfies SourceResponse);
+  });
+
+  // POST /admin/sources/:id/rotate - Issue a new write key (the old key stops working immediately)
+  app.post('/:id/rotate', async (c) => {
+    const id = c.req.param('id');
+    const db = createDb(c.env.DB!);
+    const writeKey = generateWriteKey();
+
+    const [updated] = await db
+      .update(sources)
+      .set({
+        writeKeyHash: await hashWriteKey(writeKey),
+        writeKeyPrefix: writeKeyPrefix(writeKey),
+        enabled: true,
+        revokedAt: null,
+        updatedAt: now(),
+      })
+      .where(eq(sources.id, id))
+      .returning();
+
+    if (!updated) {
+      return c.json({ success: false, error: 'Source not found' } satisfies SourceResponse, 404);
+    }
+
+    return c.json({ success: true, data: toSourceRecord(updated), writeKey } satisfies SourceResponse);
+  });
+
+  // POST /admin/sources/:id/revoke - Permanently disable the current write key
+  app.post('/:id/revoke', async (c) => {
+    const id = c.req.param('id');
+    const db = createDb(c.env.DB!);
+    const timestamp = now();
+
+    const [updated] = await db
+      .update(sources)
+      .set({ enabled: false, revokedAt: timestamp, updatedAt: timestamp })
+      .where(eq(sources.id, id))
+      .returning();
+
+    if (!updated) {
+      return c.json({ success: false, error: 'Source not found' } satisfies SourceResponse, 404);
+    }
+
+    return c.json({ success: true, data: toSourceRecord(updated) } satisfies SourceResponse);
+  });
+
+  return app;
+}
@@ -0,0 +1,106 @@
+/**
+ * Source registry storage helpers
+ */
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import type { Database } from '../db/index.js';
+import { sources, type Source } from '../db/schema.js';
+import type { SourceRecord } from './types.js';
+
+/** Minimum interval between last_used_at updates for a source */
+const TOUCH_INTERVAL_MS = 60_000;
+
+/**
+ * Resolves write keys to registered sources
+ */
+export interface SourceResolver {
+  /** Find the source registered for a write key */
+  findByWriteKey(writeKey: string): Promise<Source | null>;
+  /** Record that a source was just used */
+  touch(source: Source): Promise<void>;
+}
+
+/**
+ * Generate a unique ID for sources
+ */
+export function generateSourceId(): string {
+  return `src_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Generate a new random write key
+ */
+export function generateWriteKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `wk_${toHex(bytes)}`;
+}
+
+/**
+ * Hash a write key for storage and lookup (SHA-256, hex encoded)
+ */
+export async function hashWriteKey(writeKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(writeKey));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Display prefix for a write key
+ */
+export function writeKeyPrefix(writeKey: string): string {
+  return writeKey.slice(0, 10);
+}
+
+/**
+ * Convert a source row to its API representation
+ */
+export function toSourceRecord(row: Source): SourceRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    writeKeyPrefix: row.writeKeyPrefix,
+    enabled: row.enabled,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    lastUsedAt: row.lastUsedAt,
+    revokedAt: row.revokedAt,
+    trackingPlanMode: row.trackingPlanMode,
+    botMode: row.botMode,
+    consentPolicy: row.consentPolicy ?? null,
+  };
+}
+
+/**
+ * Create a source resolver backed by D1
+ */
+export function createSourceResolver(db: Database): SourceResolver {
+  return {
+    async findByWriteKey(writeKey) {
+      const hash = await hashWriteKey(writeKey);
+      const rows = await db
+        .select()
+        .from(sources)
+        .where(eq(sources.writeKeyHash, hash))
+        .limit(1);
+      return rows[0] ?? null;
+    },
+
+    async touch(source) {
+      const now = new Date();
+      const threshold = new Date(now.getTime() - TOUCH_INTERVAL_MS).toISOString();
+
+      // Only write when the previous timestamp is stale, to avoid a D1 write per request
+      await db
+        .update(sources)
+        .set({ lastUsedAt: now.toISOString() })
+        .where(
+          and(
+            eq(sources.id, source.id),
+            or(isNull(sources.lastUsedAt), lt(sources.lastUsedAt, threshold))
+          )
+        );
+    },
+  };
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
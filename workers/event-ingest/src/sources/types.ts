@@ -0,0 +1,61 @@
+/**
+ * Source registry types
+ */
+import type { ConsentPolicy, TrackingPlanMode } from '@icelight/core';
+import type { BotMode } from '../bot.js';
+
+/**
+ * Source record as returned by the admin API (never includes the write key)
+ */
+export interface SourceRecord {
+  id: string;
+  name: string;
+  writeKeyPrefix: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  trackingPlanMode: TrackingPlanMode;
+  botMode: BotMode;
+  /** Consent required before events are stored; null when not enforced */
+  consentPolicy: ConsentPolicy | null;
+}
+
+/**
+ * Source creation input
+ */
+export interface CreateSourceInput {
+  name: string;
+  enabled?: boolean;
+  trackingPlanMode?: TrackingPlanMode;
+  botMode?: BotMode;
+  consentPolicy?: ConsentPolicy | null;
+}
+
+/**
+ * Source update input
+ */
+export interface UpdateSourceInput {
+  name?: string;
+  enabled?: boolean;
+  trackingPlanMode?: TrackingPlanMode;
+  botMode?: BotMode;
+  consentPolicy?: ConsentPolicy | null;
+}
+
+/**
+ * API response types
+ */
+export interface SourceListResponse {
+  success: boolean;
+  data: SourceRecord[];
+}
+
+export interface SourceResponse {
+  success: boolean;
+  data?: SourceRecord;
+  /** Plain-text write key, only returned when a key is created or rotated */
+  writeKey?: string;
+  error?: string;
+}
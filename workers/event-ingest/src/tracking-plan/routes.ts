@@ -0,0 +1,192 @@
+/**
+ * Tracking plan admin routes for Hono
+ */
+import { Hono } from 'hono';
+import { and, asc, eq } from 'drizzle-orm';
+import { createDb } from '../db/index.js';
+import { trackingPlanEntries } from '../db/schema.js';
+import { queryMetrics } from '../metrics.js';
+import type {
+  CreateTrackingPlanEntryInput,
+  UpdateTrackingPlanEntryInput,
+  TrackingPlanListResponse,
+  TrackingPlanEntryResponse,
+} from './types.js';
+import { toEntryRecord, invalidateTrackingPlan, VIOLATION_METRIC } from './store.js';
+
+/**
+ * Environment type for tracking plan routes
+ */
+interface TrackingPlanEnv {
+  DB?: D1Database;
+}
+
+const EVENT_TYPES = ['track', 'identify', 'group'] as const;
+
+/**
+ * Generate a unique ID for tracking plan entries
+ */
+function generateId(): string {
+  return `tp_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get current ISO timestamp
+ */
+function now(): string {
+  return new Date().toISOString();
+}
+
+function isSchema(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Create tracking plan routes
+ */
+export function createTrackingPlanRoutes() {
+  const app = new Hono<{ Bindings: TrackingPlanEnv }>();
+
+  // Middleware to check D1 binding
+  app.use('*', async (c, next) => {
+    if (!c.env.DB) {
+      return c.json({ success: false, error: 'Tracking plan storage not configured (D1 binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // GET /admin/tracking-plan - List all entries
+  app.get('/', async (c) => {
+    const db = createDb(c.env.DB!);
+
+    const rows = await db
+      .select()
+      .from(trackingPlanEntries)
+      .orderBy(asc(trackingPlanEntries.eventType), asc(trackingPlanEntries.eventName));
+
+    return c.json({ success: true, data: rows.map(toEntryRecord) } satisfies TrackingPlanListResponse);
+  });
+
+  // GET /admin/tracking-plan/violations?days=7 - Daily violation counts per source and event
+  app.get('/violations', async (c) => {
+    const days = Math.min(Math.max(parseInt(c.req.query('days') ?? '7', 10) || 7, 1), 90);
+    const db = createDb(c.env.DB!);
+
+    const rows = await queryMetrics(db, VIOLATION_METRIC, days);
+
+    return c.json({
+      success: true,
+      data: rows.map(row => ({
+        day: row.day,
+        sourceId: row.sourceId || null,
+        event: row.label,
+        count: row.count,
+      })),
+    });
+  });
+
+  // POST /admin/tracking-plan - Add an entry
+  app.post('/', async (c) => {
+    let body: CreateTrackingPlanEntryInput;
+    try {
+      body = await c.req.json<CreateTrackingPlanEntryInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies TrackingPlanEntryResponse, 400);
+    }
+
+    if (!EVENT_TYPES.includes(body.eventType)) {
+      return c.json({ success: false, error: `eventType must be one of: ${EVENT_TYPES.join(', ')}` } satisfies TrackingPlanEntryResponse, 400);
+    }
+
+    if (body.eventType === 'track' && (!body.eventName || typeof body.eventName !== 'string')) {
+      return c.json({ success: false, error: 'eventName is required for track entries' } satisfies TrackingPlanEntryResponse, 400);
+    }
+
+    if (!isSchema(body.schema)) {
+      return c.json({ success: false, error: 'schema must be a JSON Schema object' } satisfies TrackingPlanEntryResponse, 400);
+    }
+
+    const db = createDb(c.env.DB!);
+    const eventName = body.eventType === 'track' ? body.eventName! : '';
+
+    const existing = await db
+      .select({ id: trackingPlanEntries.id })
+      .from(trackingPlanEntries)
+      .where(and(eq(trackingPlanEntries.eventType, body.eventType), eq(trackingPlanEntries.eventName, eventName)))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return c.json({ success: false, error: 'An entry for this event already exists' } satisfies TrackingPlanEntryResponse, 409);
+    }
+
+    const timestamp = now();
+    const newEntry = {
+      id: generateId(),
+      eventType: body.eventType,
+      eventName,
+      description: body.description ?? null,
+      schema: JSON.stringify(body.schema),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await db.insert(trackingPlanEntries).values(newEntry);
+    invalidateTrackingPlan();
+
+    return c.json({ success: true, data: toEntryRecord(newEntry) } satisfies TrackingPlanEntryResponse, 201);
+  });
+
+  // PUT /admin/tracking-plan/:id - Update an entry's schema or description
+  app.put('/:id', async (c) => {
+    const id = c.req.param('id');
+
+    let body: UpdateTrackingPlanEntryInput;
+    try {
+      body = await c.req.json<UpdateTrackingPlanEntryInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies TrackingPlanEntryResponse, 400);
+    }
+
+    if (body.schema !== undefined && !isSchema(body.schema)) {
+      return c.json({ success: false, error: 'schema must be a JSON Schema object' } satisfies TrackingPlanEntryResponse, 400);
+    }
+
+    const db = createDb(c.env.DB!);
+    const updates: Partial<typeof trackingPlanEntries.$inferInsert> = { updatedAt: now() };
+    if (body.description !== undefined) updates.description = body.description;
+    if (body.schema !== undefined) updates.schema = JSON.stringify(body.schema);
+
+    const [updated] = await db
+      .update(trackingPlanEntries)
+      .set(updates)
+      .where(eq(trackingPlanEntries.id, id))
+      .returning();
+
+    if (!updated) {
+      return c.json({ success: false, error: 'Tracking plan entry not found' } satisfies TrackingPlanEntryResponse, 404);
+    }
+
+    invalidateTrackingPlan();
+    return c.json({ success: true, data: toEntryRecord(updated) } satisfies TrackingPlanEntryResponse);
+  });
+
+  // DELETE /admin/tracking-plan/:id - Remove an entry
+  app.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    const db = createDb(c.env.DB!);
+
+    const deleted = await db
+      .delete(trackingPlanEntries)
+      .where(eq(trackingPlanEntries.id, id))
+      .returning();
+
+    if (deleted.length === 0) {
+      return c.json({ success: false, error: 'Tracking plan entry not found' } satisfies TrackingPlanEntryResponse, 404);
+    }
+
+    invalidateTrackingPlan();
+    return c.json({ success: true } satisfies TrackingPlanEntryResponse);
+  });
+
+  return app;
+}
@@ -0,0 +1,138 @@
+/**
+ * Tracking plan storage and enforcement
+ */
+import {
+  checkTrackingPlan,
+  type FlattenedEvent,
+  type JsonSchema,
+  type TrackingPlan,
+  type TrackingPlanMode,
+} from '@icelight/core';
+import type { Database } from '../db/index.js';
+import { trackingPlanEntries, type TrackingPlanEntry } from '../db/schema.js';
+import { createConfigCache } from '../cache.js';
+import type { TrackingPlanEntryRecord } from './types.js';
+
+/** Metric name used for violation counters */
+export const VIOLATION_METRIC = 'tracking_plan.violation';
+
+/**
+ * Violation count label for track events whose name is not in the plan, so
+ * clients cannot add a metric row per made-up event name
+ */
+export const UNPLANNED_LABEL = 'unplanned';
+
+const planCache = createConfigCache<TrackingPlan>(60_000);
+
+export interface BlockedEvent {
+  messageId: string;
+  errors: string[];
+}
+
+export interface TrackingPlanResult {
+  /** Events to send (tagged with violations in warn mode) */
+  events: FlattenedEvent[];
+  /** Events dropped in block mode */
+  blocked: BlockedEvent[];
+  /** Violating events per event name, for the violation counters */
+  violationCounts: Map<string, number>;
+}
+
+/**
+ * Parse a TRACKING_PLAN_MODE value, falling back to allow
+ */
+export function parseTrackingPlanMode(value: string | undefined): TrackingPlanMode {
+  return value === 'warn' || value === 'block' ? value : 'allow';
+}
+
+/**
+ * Convert an entry row to its API representation
+ */
+export function toEntryRecord(row: TrackingPlanEntry): TrackingPlanEntryRecord {
+  return {
+    id: row.id,
+    eventType: row.eventType,
+    eventName: row.eventName,
+    description: row.description,
+    schema: JSON.parse(row.schema) as JsonSchema,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Build a tracking plan from its entries
+ */
+export function buildTrackingPlan(rows: TrackingPlanEntry[]): TrackingPlan {
+  const plan: TrackingPlan = { events: {} };
+
+  for (const row of rows) {
+    const schema = JSON.parse(row.schema) as JsonSchema;
+    if (row.eventType === 'track') {
+      plan.events[row.eventName] = schema;
+    } else if (row.eventType === 'identify') {
+      plan.identifyTraits = schema;
+    } else if (row.eventType === 'group') {
+      plan.groupTraits = schema;
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Load the tracking plan (cached per isolate for 60 seconds)
+ */
+export function loadTrackingPlan(db: Database): Promise<TrackingPlan> {
+  return planCache.get(async () => {
+    const rows = await db.select().from(trackingPlanEntries);
+    return buildTrackingPlan(rows);
+  });
+}
+
+/**
+ * Drop the cached plan after an admin change
+ */
+export function invalidateTrackingPlan(): void {
+  planCache.invalidate();
+}
+
+/**
+ * Check events against the plan and apply the source's mode
+ */
+export function enforceTrackingPlan(
+  events: FlattenedEvent[],
+  plan: TrackingPlan,
+  mode: TrackingPlanMode
+): TrackingPlanResult {
+  const result: TrackingPlanResult = { events: [], blocked: [], violationCounts: new Map() };
+
+  if (mode === 'allow') {
+    result.events = events;
+    return result;
+  }
+
+  for (const event of events) {
+    const violations = checkTrackingPlan(event, plan);
+
+    if (violations.length === 0) {
+      result.events.push(event);
+      continue;
+    }
+
+    const name = event.event ?? '';
+    const label = event.type !== 'track' ? event.type : Object.hasOwn(plan.events, name) ? name : UNPLANNED_LABEL;
+    result.violationCounts.set(label, (result.violationCounts.get(label) ?? 0) + 1);
+
+    if (mode === 'block') {
+      result.blocked.push({ messageId: event.message_id, errors: violations });
+    } else {
+      result.events.push({
+        ...event,
+        context: { ...event.context, trackingPlanViolations: violations },
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,52 @@
+/**
+ * Tracking plan API types
+ */
+import type { JsonSchema } from '@icelight/core';
+
+export type TrackingPlanEventType = 'track' | 'identify' | 'group';
+
+/**
+ * Tracking plan entry as returned by the admin API
+ */
+export interface TrackingPlanEntryRecord {
+  id: string;
+  eventType: TrackingPlanEventType;
+  /** Event name for track entries (empty for identify/group traits) */
+  eventName: string;
+  description: string | null;
+  schema: JsonSchema;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Entry creation input
+ */
+export interface CreateTrackingPlanEntryInput {
+  eventType: TrackingPlanEventType;
+  eventName?: string;
+  description?: string;
+  schema: JsonSchema;
+}
+
+/**
+ * Entry update input
+ */
+export interface UpdateTrackingPlanEntryInput {
+  description?: string;
+  schema?: JsonSchema;
+}
+
+/**
+ * API response types
+ */
+export interface TrackingPlanListResponse {
+  success: boolean;
+  data: TrackingPlanEntryRecord[];
+}
+
+export interface TrackingPlanEntryResponse {
+  success: boolean;
+  data?: TrackingPlanEntryRecord;
+  error?: string;
+}
@@ -0,0 +1,212 @@
+/**
+ * Transformation rule admin routes for Hono
+ */
+import { Hono } from 'hono';
+import { eq } from 'drizzle-orm';
+import {
+  applyTransformRules,
+  validateEvent,
+  validateTransformRule,
+  validateTransformRules,
+  type AnalyticsEvent,
+  type TransformRule,
+} from '@icelight/core';
+import { createDb } from '../db/index.js';
+import { transformationRules } from '../db/schema.js';
+import type {
+  CreateTransformationRuleInput,
+  UpdateTransformationRuleInput,
+  DryRunInput,
+  DryRunResponse,
+  TransformationRuleListResponse,
+  TransformationRuleResponse,
+} from './types.js';
+import {
+  toRuleRecord,
+  listTransformationRules,
+  nextRulePosition,
+  invalidateTransformationRules,
+} from './store.js';
+
+/**
+ * Environment type for transformation rule routes
+ */
+interface TransformationsEnv {
+  DB?: D1Database;
+}
+
+/**
+ * Generate a unique ID for transformation rules
+ */
+function generateId(): string {
+  return `tr_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get current ISO timestamp
+ */
+function now(): string {
+  return new Date().toISOString();
+}
+
+function isPosition(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Create transformation rule routes
+ */
+export function createTransformationRoutes() {
+  const app = new Hono<{ Bindings: TransformationsEnv }>();
+
+  // Middleware to check D1 binding
+  app.use('*', async (c, next) => {
+    if (!c.env.DB) {
+      return c.json({ success: false, error: 'Transformation rule storage not configured (D1 binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // GET /admin/transformations - List rules in the order they run
+  app.get('/', async (c) => {
+    const rows = await listTransformationRules(createDb(c.env.DB!));
+    return c.json({ success: true, data: rows.map(toRuleRecord) } satisfies TransformationRuleListResponse);
+  });
+
+  // POST /admin/transformations/dry-run - Apply rules to a sample event without storing anything
+  app.post('/dry-run', async (c) => {
+    let body: DryRunInput;
+    try {
+      body = await c.req.json<DryRunInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies DryRunResponse, 400);
+    }
+
+    const eventValidation = validateEvent(body.event);
+    if (!eventValidation.valid) {
+      return c.json({ success: false, error: 'Invalid event', errors: eventValidation.errors } satisfies DryRunResponse, 400);
+    }
+
+    let rules: Array<{ id: string | null; rule: TransformRule }>;
+    if (body.rules !== undefined) {
+      const validation = validateTransformRules(body.rules);
+      if (!validation.valid) {
+        return c.json({ success: false, error: 'Invalid rules', errors: validation.errors } satisfies DryRunResponse, 400);
+      }
+      rules = body.rules.map(rule => ({ id: null, rule }));
+    } else {
+      const rows = await listTransformationRules(createDb(c.env.DB!));
+      rules = rows.filter(row => row.enabled || body.includeDisabled).map(row => ({ id: row.id, rule: row.rule }));
+    }
+
+    const result = applyTransformRules(body.event as AnalyticsEvent, rules.map(({ rule }) => rule));
+
+    return c.json({
+      success: true,
+      data: {
+        event: result.event,
+        dropped: result.event === null,
+        applied: result.applied.map(index => ({ index, id: rules[index].id, action: rules[index].rule.action })),
+      },
+    } satisfies DryRunResponse);
+  });
+
+  // POST /admin/transformations - Add a rule (disabled unless enabled: true)
+  app.post('/', async (c) => {
+    let body: CreateTransformationRuleInput;
+    try {
+      body = await c.req.json<CreateTransformationRuleInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies TransformationRuleResponse, 400);
+    }
+
+    const validation = validateTransformRule(body.rule);
+    if (!validation.valid) {
+      return c.json({ success: false, error: `Invalid rule: ${validation.errors.join('; ')}` } satisfies TransformationRuleResponse, 400);
+    }
+
+    if (body.position !== undefined && !isPosition(body.position)) {
+      return c.json({ success: false, error: 'position must be a non-negative integer' } satisfies TransformationRuleResponse, 400);
+    }
+
+    const db = createDb(c.env.DB!);
+    const timestamp = now();
+    const newRule = {
+      id: generateId(),
+      position: body.position ?? (await nextRulePosition(db)),
+      enabled: body.enabled ?? false,
+      description: body.description ?? null,
+      rule: body.rule,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+
+    await db.insert(transformationRules).values(newRule);
+    invalidateTransformationRules();
+
+    return c.json({ success: true, data: toRuleRecord(newRule) } satisfies TransformationRuleResponse, 201);
+  });
+
+  // PATCH /admin/transformations/:id - Change, enable/disable or reorder a rule
+  app.patch('/:id', async (c) => {
+    const id = c.req.param('id');
+
+    let body: UpdateTransformationRuleInput;
+    try {
+      body = await c.req.json<UpdateTransformationRuleInput>();
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' } satisfies TransformationRuleResponse, 400);
+    }
+
+    if (body.rule !== undefined) {
+      const validation = validateTransformRule(body.rule);
+      if (!validation.valid) {
+        return c.json({ success: false, error: `Invalid rule: ${validation.errors.join('; ')}` } satisfies TransformationRuleResponse, 400);
+      }
+    }
+
+    if (body.position !== undefined && !isPosition(body.position)) {
+      return c.json({ success: false, error: 'position must be a non-negative integer' } satisfies TransformationRuleResponse, 400);
+    }
+
+    const db = createDb(c.env.DB!);
+    const updates: Partial<typeof transformationRules.$inferInsert> = { updatedAt: now() };
+    if (body.rule !== undefined) updates.rule = body.rule;
+    if (body.description !== undefined) updates.description = body.description;
+    if (body.enabled !== undefined) updates.enabled = body.enabled;
+    if (body.position !== undefined) updates.position = body.position;
+
+    const [updated] = await db
+      .update(transformationRules)
+      .set(updates)
+      .where(eq(transformationRules.id, id))
+      .returning();
+
+    if (!updated) {
+      return c.json({ success: false, error: 'Transformation rule not found' } satisfies TransformationRuleResponse, 404);
+    }
+
+    invalidateTransformationRules();
+    return c.json({ success: true, data: toRuleRecord(updated) } satisfies TransformationRuleResponse);
+  });
+
+  // DELETE /admin/transformations/:id - Remove a rule
+  app.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    const db = createDb(c.env.DB!);
+
+    const deleted = await db
+      .delete(transformationRules)
+      .where(eq(transformationRules.id, id))
+      .returning();
+
+    if (deleted.length === 0) {
+      return c.json({ success: false, error: 'Transformation rule not found' } satisfies TransformationRuleResponse, 404);
+    }
+
+    invalidateTransformationRules();
+    return c.json({ success: true } satisfies TransformationRuleResponse);
+  });
+
+  return app;
+}
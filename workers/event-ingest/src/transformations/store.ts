@@ -0,0 +1,63 @@
+/**
+ * Transformation rule storage
+ */
+import { asc, sql } from 'drizzle-orm';
+import type { TransformRule } from '@icelight/core';
+import type { Database } from '../db/index.js';
+import { transformationRules, type TransformationRule } from '../db/schema.js';
+import { createConfigCache } from '../cache.js';
+import type { TransformationRuleRecord } from './types.js';
+
+const rulesCache = createConfigCache<TransformRule[]>(60_000);
+
+/**
+ * Convert a rule row to its API representation
+ */
+export function toRuleRecord(row: TransformationRule): TransformationRuleRecord {
+  return {
+    id: row.id,
+    position: row.position,
+    enabled: row.enabled,
+    description: row.description,
+    rule: row.rule,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * List rules in the order they run
+ */
+export function listTransformationRules(db: Database): Promise<TransformationRule[]> {
+  return db
+    .select()
+    .from(transformationRules)
+    .orderBy(asc(transformationRules.position), asc(transformationRules.createdAt));
+}
+
+/**
+ * Load the enabled rules in order (cached per isolate for 60 seconds)
+ */
+export function loadTransformationRules(db: Database): Promise<TransformRule[]> {
+  return rulesCache.get(async () => {
+    const rows = await listTransformationRules(db);
+    return rows.filter(row => row.enabled).map(row => row.rule);
+  });
+}
+
+/**
+ * Drop the cached rules after an admin change
+ */
+export function invalidateTransformationRules(): void {
+  rulesCache.invalidate();
+}
+
+/**
+ * Position after the last rule
+ */
+export async function nextRulePosition(db: Database): Promise<number> {
+  const [row] = await db
+    .select({ max: sql<number | null>`max(${transformationRules.position})` })
+    .from(transformationRules);
+  return (row?.max ?? -1) + 1;
+}
@@ -0,0 +1,78 @@
+/**
+ * Transformation rule API types
+ */
+import type { AnalyticsEvent, TransformRule } from '@icelight/core';
+
+/**
+ * Transformation rule as returned by the admin API
+ */
+export interface TransformationRuleRecord {
+  id: string;
+  /** Rules run in ascending position order */
+  position: number;
+  enabled: boolean;
+  description: string | null;
+  rule: TransformRule;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Rule creation input
+ */
+export interface CreateTransformationRuleInput {
+  rule: TransformRule;
+  description?: string;
+  /** New rules are disabled unless enabled here (default: false) */
+  enabled?: boolean;
+  /** Defaults to after the last rule */
+  position?: number;
+}
+
+/**
+ * Rule update input
+ */
+export interface UpdateTransformationRuleInput {
+  rule?: TransformRule;
+  description?: string;
+  enabled?: boolean;
+  position?: number;
+}
+
+/**
+ * Dry-run input: a sample event, and the rules to test
+ */
+export interface DryRunInput {
+  event: unknown;
+  /** Rules to apply instead of the stored ones */
+  rules?: TransformRule[];
+  /** Also apply stored rules that are not enabled yet */
+  includeDisabled?: boolean;
+}
+
+/**
+ * API response types
+ */
+export interface TransformationRuleListResponse {
+  success: boolean;
+  data: TransformationRuleRecord[];
+}
+
+export interface TransformationRuleResponse {
+  success: boolean;
+  data?: TransformationRuleRecord;
+  error?: string;
+}
+
+export interface DryRunResponse {
+  success: boolean;
+  data?: {
+    /** The transformed event, or null if a rule dropped it */
+    event: AnalyticsEvent | null;
+    dropped: boolean;
+    /** Rules that changed the event, in the order they ran */
+    applied: Array<{ index: number; id: string | null; action: TransformRule['action'] }>;
+  };
+  error?: string;
+  errors?: string[];
+}
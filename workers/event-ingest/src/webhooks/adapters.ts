@@ -0,0 +1,99 @@
+/**
+ * Webhook adapter registry
+ */
+import { validateWebhookMapping } from '@icelight/core';
+import { createGenericAdapter, type GenericWebhookConfig } from './generic.js';
+import { githubAdapter } from './github.js';
+import { stripeAdapter } from './stripe.js';
+import type { WebhookAdapter } from './types.js';
+
+/** Built-in adapters; these names cannot be redefined in WEBHOOK_MAPPINGS */
+const BUILT_IN_ADAPTERS: Record<string, WebhookAdapter> = {
+  stripe: stripeAdapter,
+  github: githubAdapter,
+};
+
+export interface WebhookConfig {
+  adapters: Record<string, WebhookAdapter>;
+  secrets: Record<string, string>;
+}
+
+export type WebhookConfigResult =
+  | { success: true; config: WebhookConfig }
+  | { success: false; message: string };
+
+// Parsed configuration keyed by the raw env values (per isolate)
+let cached: { mappings: string; secrets: string; result: WebhookConfigResult } | undefined;
+
+function parseJsonObject(raw: string | undefined, name: string): Record<string, unknown> | string {
+  if (!raw?.trim()) return {};
+  try {
+    const value: unknown = JSON.parse(raw);
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : `${name} must be a JSON object`;
+  } catch {
+    return `${name} is not valid JSON`;
+  }
+}
+
+function validateGenericConfig(name: string, value: unknown): string[] {
+  const { signature, mapping } = (value ?? {}) as Partial<GenericWebhookConfig>;
+  const errors: string[] = [];
+
+  if (BUILT_IN_ADAPTERS[name]) {
+    errors.push(`${name}: is a built-in adapter`);
+  }
+  if (!signature || typeof signature.header !== 'string' || signature.header === '') {
+    errors.push(`${name}.signature.header: must be a header name`);
+  } else if (signature.encoding !== undefined && signature.encoding !== 'hex' && signature.encoding !== 'base64') {
+    errors.push(`${name}.signature.encoding: must be one of: hex, base64`);
+  }
+  errors.push(...validateWebhookMapping(mapping).errors.map(error => `${name}.mapping: ${error}`));
+
+  return errors;
+}
+
+/**
+ * Parse WEBHOOK_MAPPINGS (JSON object of generic adapter configs by name)
+ * and WEBHOOK_SECRETS (JSON object of signing secrets by name)
+ */
+export function parseWebhookConfig(mappings: string | undefined, secrets: string | undefined): WebhookConfigResult {
+  if (cached && cached.mappings === (mappings ?? '') && cached.secrets === (secrets ?? '')) {
+    return cached.result;
+  }
+
+  let result: WebhookConfigResult;
+  const parsedMappings = parseJsonObject(mappings, 'WEBHOOK_MAPPINGS');
+  const parsedSecrets = parseJsonObject(secrets, 'WEBHOOK_SECRETS');
+
+  if (typeof parsedMappings === 'string' || typeof parsedSecrets === 'string') {
+    result = { success: false, message: [parsedMappings, parsedSecrets].filter(v => typeof v === 'string').join('; ') };
+  } else {
+    const errors = Object.entries(parsedMappings).flatMap(([name, value]) => validateGenericConfig(name, value));
+    for (const [name, secret] of Object.entries(parsedSecrets)) {
+      if (typeof secret !== 'string' || secret === '') errors.push(`WEBHOOK_SECRETS.${name}: must be a non-empty string`);
+    }
+
+    result = errors.length > 0
+      ? { success: false, message: errors.join('; ') }
+      : {
+          success: true,
+          config: {
+            adapters: {
+              ...Object.fromEntries(
+                Object.entries(parsedMappings).map(([name, value]) => [
+                  name,
+                  createGenericAdapter(value as GenericWebhookConfig),
+                ])
+              ),
+              ...BUILT_IN_ADAPTERS,
+            },
+            secrets: parsedSecrets as Record<string, string>,
+          },
+        };
+  }
+
+  cached = { mappings: mappings ?? '', secrets: secrets ?? '', result };
+  return result;
+}
@@ -0,0 +1,44 @@
+/**
+ * Generic webhook adapter for providers without a dedicated one
+ */
+import { mapWebhookPayload, type WebhookMapping } from '@icelight/core';
+import { hmacSha256, signaturesMatch, toBase64, toHex } from './signature.js';
+import type { WebhookAdapter } from './types.js';
+
+/**
+ * Where a provider sends its HMAC-SHA256 signature of the raw body
+ */
+export interface WebhookSignatureConfig {
+  /** Header carrying the signature, e.g. "X-Signature" */
+  header: string;
+  /** Text before the signature, e.g. "sha256=" */
+  prefix?: string;
+  encoding?: 'hex' | 'base64';
+}
+
+export interface GenericWebhookConfig {
+  signature: WebhookSignatureConfig;
+  mapping: WebhookMapping;
+}
+
+/**
+ * Create an adapter from a signature scheme and a declared mapping
+ */
+export function createGenericAdapter(config: GenericWebhookConfig): WebhookAdapter {
+  const { header, prefix = '', encoding = 'hex' } = config.signature;
+
+  return {
+    async verify(request, secret) {
+      const received = request.header(header);
+      if (!received) return false;
+
+      const digest = await hmacSha256(secret, request.body);
+      return signaturesMatch(prefix + (encoding === 'base64' ? toBase64(digest) : toHex(digest)), received.trim());
+    },
+
+    map(request) {
+      const event = mapWebhookPayload(request.payload, config.mapping);
+      return event ? [event] : [];
+    },
+  };
+}
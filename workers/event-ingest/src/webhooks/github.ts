@@ -0,0 +1,73 @@
+/**
+ * GitHub webhook adapter
+ * https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries
+ */
+import { mapWebhookPayload, type WebhookEventMapping, type WebhookMapping } from '@icelight/core';
+import { hmacSha256, signaturesMatch, toHex } from './signature.js';
+import type { WebhookAdapter } from './types.js';
+
+/**
+ * Fields shared by every GitHub event: the sender identifies the user
+ */
+function githubEvent(event: string, properties: WebhookEventMapping['properties']): WebhookEventMapping {
+  return {
+    event,
+    userId: '$.sender.login',
+    properties: { repository: '$.repository.full_name', ...properties },
+  };
+}
+
+/**
+ * Keyed by `<X-GitHub-Event>.<action>`, or the bare event for events without actions
+ */
+export const GITHUB_MAPPING: WebhookMapping = {
+  events: {
+    push: githubEvent('Code Pushed', {
+      ref: '$.ref',
+      head_commit: '$.after',
+    }),
+    'pull_request.opened': githubEvent('Pull Request Opened', {
+      number: '$.pull_request.number',
+      title: '$.pull_request.title',
+    }),
+    'pull_request.closed': githubEvent('Pull Request Closed', {
+      number: '$.pull_request.number',
+      merged: '$.pull_request.merged',
+    }),
+    'issues.opened': githubEvent('Issue Opened', {
+      number: '$.issue.number',
+      title: '$.issue.title',
+    }),
+    'release.published': githubEvent('Release Published', {
+      tag: '$.release.tag_name',
+    }),
+    'star.created': githubEvent('Repository Starred', {}),
+  },
+};
+
+export const githubAdapter: WebhookAdapter = {
+  async verify(request, secret) {
+    const received = request.header('X-Hub-Signature-256');
+    if (!received?.startsWith('sha256=')) return false;
+
+    const expected = `sha256=${toHex(await hmacSha256(secret, request.body))}`;
+    return signaturesMatch(expected, received);
+  },
+
+  map(request) {
+    const name = request.header('X-GitHub-Event');
+    if (!name) return [];
+
+    const action = (request.payload as { action?: unknown } | null)?.action;
+    const event = mapWebhookPayload(
+      request.payload,
+      GITHUB_MAPPING,
+      typeof action === 'string' ? `${name}.${action}` : name
+    );
+    if (!event) return [];
+
+    // The delivery ID stays the same when GitHub redelivers
+    const delivery = request.header('X-GitHub-Delivery');
+    return [delivery ? { ...event, messageId: delivery } : event];
+  },
+};
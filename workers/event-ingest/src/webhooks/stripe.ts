@@ -0,0 +1,93 @@
+/**
+ * Stripe webhook adapter
+ * https://docs.stripe.com/webhooks#verify-manually
+ */
+import { mapWebhookPayload, type WebhookEventMapping, type WebhookMapping } from '@icelight/core';
+import { hmacSha256, signaturesMatch, toHex } from './signature.js';
+import type { WebhookAdapter } from './types.js';
+
+/** Maximum age of a signed delivery, as in Stripe's own libraries */
+const TOLERANCE_SECONDS = 300;
+
+/**
+ * Fields shared by every Stripe event: the event ID deduplicates retries and
+ * the customer ID identifies the user
+ */
+function stripeEvent(event: string, properties: WebhookEventMapping['properties']): WebhookEventMapping {
+  return {
+    event,
+    userId: '$.data.object.customer',
+    messageId: '$.id',
+    timestamp: { path: '$.created', transform: 'unix_seconds' },
+    properties,
+  };
+}
+
+/** Stripe amounts are in the currency's smallest unit (none for JPY) */
+const CURRENCY = '$.data.object.currency';
+
+export const STRIPE_MAPPING: WebhookMapping = {
+  typePath: '$.type',
+  events: {
+    'invoice.paid': stripeEvent('Invoice Paid', {
+      revenue: { path: '$.data.object.amount_paid', transform: 'cents', currency: CURRENCY },
+      currency: CURRENCY,
+      invoice_id: '$.data.object.id',
+      subscription_id: '$.data.object.subscription',
+    }),
+    'invoice.payment_failed': stripeEvent('Invoice Payment Failed', {
+      amount: { path: '$.data.object.amount_due', transform: 'cents', currency: CURRENCY },
+      currency: CURRENCY,
+      invoice_id: '$.data.object.id',
+      subscription_id: '$.data.object.subscription',
+    }),
+    'checkout.session.completed': stripeEvent('Checkout Completed', {
+      revenue: { path: '$.data.object.amount_total', transform: 'cents', currency: CURRENCY },
+      currency: CURRENCY,
+      session_id: '$.data.object.id',
+    }),
+    'charge.refunded': stripeEvent('Charge Refunded', {
+      amount: { path: '$.data.object.amount_refunded', transform: 'cents', currency: CURRENCY },
+      currency: CURRENCY,
+      charge_id: '$.data.object.id',
+    }),
+    'customer.subscription.created': stripeEvent('Subscription Created', {
+      subscription_id: '$.data.object.id',
+      status: '$.data.object.status',
+      price_id: '$.data.object.items.data.0.price.id',
+    }),
+    'customer.subscription.deleted': stripeEvent('Subscription Canceled', {
+      subscription_id: '$.data.object.id',
+      price_id: '$.data.object.items.data.0.price.id',
+    }),
+  },
+};
+
+/**
+ * Verify a Stripe-Signature header: `t=<unix seconds>,v1=<hex HMAC of "t.body">`
+ * (several v1 entries are sent while a secret is being rolled)
+ */
+async function verifyStripeSignature(header: string | undefined, body: string, secret: string): Promise<boolean> {
+  if (!header) return false;
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return false;
+
+  const expected = toHex(await hmacSha256(secret, `${timestamp}.${body}`));
+  return signatures.some(signature => signaturesMatch(expected, signature));
+}
+
+export const stripeAdapter: WebhookAdapter = {
+  verify(request, secret) {
+    return verifyStripeSignature(request.header('Stripe-Signature'), request.body, secret);
+  },
+
+  map(request) {
+    const event = mapWebhookPayload(request.payload, STRIPE_MAPPING);
+    return event ? [event] : [];
+  },
+};
@@ -0,0 +1,26 @@
+/**
+ * Webhook adapter types
+ */
+import type { AnalyticsEvent } from '@icelight/core';
+
+/**
+ * An inbound webhook delivery
+ */
+export interface WebhookRequest {
+  /** Raw body exactly as received (signatures are computed over it) */
+  body: string;
+  /** Parsed JSON body */
+  payload: unknown;
+  /** Read a request header */
+  header(name: string): string | undefined;
+}
+
+/**
+ * Verifies and translates webhooks from one provider
+ */
+export interface WebhookAdapter {
+  /** Check the delivery's signature against the shared secret */
+  verify(request: WebhookRequest, secret: string): Promise<boolean>;
+  /** Map the delivery to events; an empty array means its type is not mapped */
+  map(request: WebhookRequest): AnalyticsEvent[];
+}
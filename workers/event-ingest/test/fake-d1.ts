@@ -0,0 +1,52 @@
+/**
+ * D1 binding that records the statements it runs instead of storing rows
+ */
+
+export interface RecordedStatement {
+  sql: string;
+  params: unknown[];
+}
+
+export interface FakeD1 {
+  binding: D1Database;
+  statements: RecordedStatement[];
+}
+
+/**
+ * Create a D1 binding whose queries succeed with no rows
+ */
+export function createFakeD1(): FakeD1 {
+  const statements: RecordedStatement[] = [];
+
+  const prepare = (sql: string) => {
+    let params: unknown[] = [];
+    const execute = async () => {
+      statements.push({ sql, params });
+      return { success: true, results: [], meta: {} };
+    };
+    const statement = {
+      bind: (...values: unknown[]) => {
+        params = values;
+        return statement;
+      },
+      run: execute,
+      all: execute,
+      raw: async () => {
+        await execute();
+        return [];
+      },
+      first: async () => {
+        await execute();
+        return null;
+      },
+    };
+    return statement;
+  };
+
+  const binding = {
+    prepare,
+    batch: async (batch: Array<{ run: () => Promise<unknown> }>) => Promise.all(batch.map(statement => statement.run())),
+  } as unknown as D1Database;
+
+  return { binding, statements };
+}
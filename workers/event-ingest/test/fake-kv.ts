@@ -0,0 +1,39 @@
+/**
+ * In-memory stand-in for a KV namespace
+ */
+
+export interface FakeKv {
+  binding: KVNamespace;
+  values: Map<string, string>;
+  /** Number of get calls, single-key or bulk */
+  reads: number;
+  /** Number of put calls */
+  writes: number;
+}
+
+/**
+ * Create a KV namespace backed by a Map
+ * With `unavailable`, every call rejects, as during a KV outage.
+ */
+export function createFakeKv(unavailable = false): FakeKv {
+  const kv: FakeKv = { binding: undefined as unknown as KVNamespace, values: new Map(), reads: 0, writes: 0 };
+
+  const get = async (key: string | string[]) => {
+    kv.reads++;
+    if (unavailable) throw new Error('KV unavailable');
+    if (Array.isArray(key)) {
+      if (key.length > 100) throw new Error('Bulk get accepts at most 100 keys');
+      return new Map(key.map(k => [k, kv.values.get(k) ?? null]));
+    }
+    return kv.values.get(key) ?? null;
+  };
+
+  const put = async (key: string, value: string) => {
+    kv.writes++;
+    if (unavailable) throw new Error('KV unavailable');
+    kv.values.set(key, value);
+  };
+
+  kv.binding = { get, put } as unknown as KVNamespace;
+  return kv;
+}
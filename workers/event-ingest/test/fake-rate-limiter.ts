@@ -0,0 +1,39 @@
+/**
+ * In-memory stand-in for the RateLimiter Durable Object namespace
+ */
+
+import { RateLimitBuckets, type RateLimits } from '../src/rate-limit/bucket.js';
+import type { RateLimiter } from '../src/rate-limit/limiter.js';
+
+export interface FakeRateLimiterNamespace {
+  namespace: DurableObjectNamespace<RateLimiter>;
+  /** Buckets by instance name (`ip:<address>` or `key:<source id>`) */
+  instances: Map<string, RateLimitBuckets>;
+}
+
+/**
+ * Create a namespace whose stubs call RateLimitBuckets directly
+ * `now` defaults to the real clock.
+ */
+export function createFakeRateLimiter(now: () => number = Date.now): FakeRateLimiterNamespace {
+  const instances = new Map<string, RateLimitBuckets>();
+
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => {
+      let buckets = instances.get(name);
+      if (!buckets) {
+        buckets = new RateLimitBuckets();
+        instances.set(name, buckets);
+      }
+      const instance = buckets;
+      return {
+        consume: async (limits: RateLimits, eventCount: number) => instance.consume(limits, eventCount, now()),
+        refund: async (eventCount: number) => instance.refund(eventCount, now()),
+        inspect: async () => instance.inspect(now()),
+      };
+    },
+  };
+
+  return { namespace: namespace as unknown as DurableObjectNamespace<RateLimiter>, instances };
+}
@@ -0,0 +1,197 @@
+/**
+ * Tests for forwarding events to destinations
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenEvent, type AnalyticsEvent } from '@icelight/core';
+import { createDb } from '../src/db/index.js';
+import type { Destination } from '../src/db/schema.js';
+import { forwardEvents } from '../src/destinations/forward.js';
+import { recordDeliveries } from '../src/destinations/store.js';
+import { createFakeD1, type RecordedStatement } from './fake-d1.js';
+
+const RECEIVED_AT = '2026-06-01T12:00:00.000Z';
+
+function destination(overrides: Partial<Destination> = {}): Destination {
+  return {
+    id: 'dst_crm',
+    name: 'CRM',
+    url: 'https://crm.example.com/hooks',
+    enabled: true,
+    auth: null,
+    filter: null,
+    template: null,
+    createdAt: RECEIVED_AT,
+    updatedAt: RECEIVED_AT,
+    ...overrides,
+  };
+}
+
+function track(messageId: string, extra: Partial<AnalyticsEvent> = {}) {
+  return flattenEvent({ type: 'track', event: 'Order Completed', userId: 'user-1', messageId, ...extra } as AnalyticsEvent, RECEIVED_AT);
+}
+
+/** Delivery log rows inserted, in the column order of destination_deliveries */
+function loggedDeliveries(statements: RecordedStatement[]) {
+  return statements
+    .filter(statement => statement.sql.startsWith('insert into "destination_deliveries"'))
+    .flatMap(statement => {
+      const rows = [];
+      for (let i = 0; i < statement.params.length; i += 8) {
+        const [, destinationId, messageId, status, attempts, responseStatus, error] = statement.params.slice(i, i + 8);
+        rows.push({ destinationId, messageId, status, attempts, responseStatus, error });
+      }
+      return rows;
+    });
+}
+
+/** fetch that answers with the given statuses in turn (an Error is thrown instead) */
+function fakeFetch(responses: Array<number | Error>) {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fetch = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    const next = responses[Math.min(calls.length - 1, responses.length - 1)];
+    if (next instanceof Error) throw next;
+    return new Response(null, { status: next });
+  }) as unknown as typeof globalThis.fetch;
+  return { fetch, calls };
+}
+
+const noSleep = async () => {};
+
+describe('forwardEvents', () => {
+  it('sends a batch to a destination in one request and logs a row per event', async () => {
+    const d1 = createFakeD1();
+    const { fetch, calls } = fakeFetch([200]);
+
+    await forwardEvents(createDb(d1.binding), [destination()], [track('m1'), track('m2')], undefined, { fetch, sleep: noSleep });
+
+    assert.equal(calls.length, 1);
+    const body = JSON.parse(calls[0].init.body as string) as Array<{ message_id: string }>;
+    assert.deepEqual(body.map(event => event.message_id), ['m1', 'm2']);
+    assert.ok(calls[0].init.signal instanceof AbortSignal);
+    assert.deepEqual(loggedDeliveries(d1.statements), [
+      { destinationId: 'dst_crm', messageId: 'm1', status: 'delivered', attempts: 1, responseStatus: 200, error: null },
+      { destinationId: 'dst_crm', messageId: 'm2', status: 'delivered', attempts: 1, responseStatus: 200, error: null },
+    ]);
+  });
+
+  it('retries 5xx responses and timeouts, then logs the last failure', async () => {
+    const d1 = createFakeD1();
+    const timeout = new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    const { fetch, calls } = fakeFetch([503, timeout, 502]);
+    const delays: number[] = [];
+
+    await forwardEvents(createDb(d1.binding), [destination()], [track('m1')], undefined, {
+      fetch,
+      sleep: async ms => {
+        delays.push(ms);
+      },
+    });
+
+    assert.equal(calls.length, 3);
+    assert.deepEqual(delays, [500, 2000]);
+    assert.deepEqual(loggedDeliveries(d1.statements), [
+      { destinationId: 'dst_crm', messageId: 'm1', status: 'failed', attempts: 3, responseStatus: 502, error: 'HTTP 502' },
+    ]);
+  });
+
+  it('logs a timeout on the last attempt without a response status', async () => {
+    const d1 = createFakeD1();
+    const timeout = new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+    const { fetch } = fakeFetch([500, 500, timeout]);
+
+    await forwardEvents(createDb(d1.binding), [destination()], [track('m1')], undefined, { fetch, sleep: noSleep });
+
+    const [row] = loggedDeliveries(d1.statements);
+    assert.equal(row.status, 'failed');
+    assert.equal(row.responseStatus, null);
+    assert.equal(row.error, 'The operation was aborted due to timeout');
+  });
+
+  it('does not retry other client errors', async () => {
+    const d1 = createFakeD1();
+    const { fetch, calls } = fakeFetch([400, 200]);
+
+    await forwardEvents(createDb(d1.binding), [destination()], [track('m1')], undefined, { fetch, sleep: noSleep });
+
+    assert.equal(calls.length, 1);
+    assert.equal(loggedDeliveries(d1.statements)[0].attempts, 1);
+  });
+
+  it('leaves out events whose integrations map opts out of the destination', async () => {
+    const d1 = createFakeD1();
+    const { fetch, calls } = fakeFetch([200]);
+    const events = [
+      track('m1', { integrations: { CRM: false } }),
+      track('m2', { integrations: { All: false, CRM: true } }),
+      track('m3', { integrations: { All: false } }),
+    ];
+
+    await forwardEvents(createDb(d1.binding), [destination()], events, undefined, { fetch, sleep: noSleep });
+
+    const body = JSON.parse(calls[0].init.body as string) as Array<Record<string, unknown>>;
+    assert.deepEqual(body.map(event => event.message_id), ['m2']);
+    assert.equal('integrations' in body[0], false);
+    assert.deepEqual(loggedDeliveries(d1.statements).map(row => row.messageId), ['m2']);
+  });
+
+  it('logs a destination without its secret as failed without calling it', async () => {
+    const d1 = createFakeD1();
+    const { fetch, calls } = fakeFetch([200]);
+
+    await forwardEvents(createDb(d1.binding), [destination({ auth: { type: 'bearer' } })], [track('m1')], '{}', { fetch, sleep: noSleep });
+
+    assert.equal(calls.length, 0);
+    assert.deepEqual(loggedDeliveries(d1.statements), [
+      { destinationId: 'dst_crm', messageId: 'm1', status: 'failed', attempts: 0, responseStatus: null, error: 'No secret in DESTINATION_SECRETS for CRM' },
+    ]);
+  });
+
+  it('logs each destination as soon as its delivery finishes', async () => {
+    const d1 = createFakeD1();
+    let releaseSlow: () => void = () => {};
+    const slow = new Promise<void>(resolve => {
+      releaseSlow = resolve;
+    });
+    const fetch = (async (url: string) => {
+      if (url.includes('slow')) await slow;
+      return new Response(null, { status: 200 });
+    }) as unknown as typeof globalThis.fetch;
+
+    const forwarding = forwardEvents(
+      createDb(d1.binding),
+      [destination(), destination({ id: 'dst_slow', name: 'Slow', url: 'https://slow.example.com' })],
+      [track('m1')],
+      undefined,
+      { fetch, sleep: noSleep }
+    );
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    assert.deepEqual(loggedDeliveries(d1.statements).map(row => row.destinationId), ['dst_crm']);
+    releaseSlow();
+    await forwarding;
+    assert.deepEqual(loggedDeliveries(d1.statements).map(row => row.destinationId), ['dst_crm', 'dst_slow']);
+  });
+});
+
+describe('recordDeliveries', () => {
+  it('prunes old entries at most once an hour', async () => {
+    const d1 = createFakeD1();
+    const db = createDb(d1.binding);
+    const row = { id: 'dlv_1', destinationId: 'dst_crm', messageId: 'm1', status: 'delivered' as const, attempts: 1, createdAt: RECEIVED_AT };
+    const prunes = () => d1.statements.filter(statement => statement.sql.startsWith('delete')).length;
+
+    const start = Date.parse(RECEIVED_AT) + 365 * 86400000;
+    await recordDeliveries(db, [row], start);
+    await recordDeliveries(db, [row], start + 60_000);
+    assert.equal(prunes(), 1);
+
+    await recordDeliveries(db, [row], start + 3600000);
+    assert.equal(prunes(), 2);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for the order of checks in the ingest handler
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { createIngestApp, type IngestEnv } from '../src/handler.js';
+import { createFakeRateLimiter } from './fake-rate-limiter.js';
+import { createFakeKv } from './fake-kv.js';
+
+/** D1 binding that fails every query, to show a route never reached D1 */
+const unavailableDb = {
+  prepare() {
+    throw new Error('D1 unavailable');
+  },
+  batch() {
+    throw new Error('D1 unavailable');
+  },
+} as unknown as D1Database;
+
+function createPipeline() {
+  const sent: unknown[] = [];
+  return {
+    sent,
+    binding: {
+      send: async (events: unknown[]) => {
+        sent.push(...events);
+      },
+    },
+  };
+}
+
+const pending: Promise<unknown>[] = [];
+
+function request(app: ReturnType<typeof createIngestApp>, path: string, init: RequestInit, env: Partial<IngestEnv>) {
+  const executionCtx = {
+    waitUntil: (promise: Promise<unknown>) => pending.push(promise),
+    passThroughOnException: () => {},
+    props: {},
+  };
+  return app.request(path, init, env, executionCtx);
+}
+
+function post(body: unknown, ip = '203.0.113.7'): RequestInit {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': ip },
+    body: JSON.stringify(body),
+  };
+}
+
+describe('rate limiting', () => {
+  it('throttles a request before its body is validated', async () => {
+    const app = createIngestApp();
+    const pipeline = createPipeline();
+    const env: Partial<IngestEnv> = {
+      PIPELINE: pipeline.binding,
+      RATE_LIMITER: createFakeRateLimiter().namespace,
+      RATE_LIMIT_KEY_REQUESTS_PER_MINUTE: '1',
+    };
+
+    const accepted = await request(app, '/v1/track', post({ userId: 'user-1', event: 'Signed Up' }), env);
+    const throttled = await request(app, '/v1/track', post({ userId: 'user-1' }), env);
+
+    assert.equal(accepted.status, 200);
+    assert.equal(throttled.status, 429);
+    assert.equal(throttled.headers.get('Retry-After'), '60');
+    assert.equal(pipeline.sent.length, 1);
+  });
+
+  it('throttles a request before loading configuration from D1', async () => {
+    const app = createIngestApp();
+    const limiter = createFakeRateLimiter();
+    const env: Partial<IngestEnv> = {
+      PIPELINE: createPipeline().binding,
+      RATE_LIMITER: limiter.namespace,
+      RATE_LIMIT_IP_EVENTS_PER_SECOND: '2',
+    };
+
+    await request(app, '/v1/batch', post({ batch: [{ type: 'track', userId: 'user-1', event: 'A' }, { type: 'track', userId: 'user-1', event: 'B' }] }), env);
+    const throttled = await request(app, '/v1/track', post({ userId: 'user-1', event: 'C' }), { ...env, DB: unavailableDb });
+
+    assert.equal(throttled.status, 429);
+  });
+
+  it('counts every event of a batch against the events-per-second limit', async () => {
+    const app = createIngestApp();
+    const limiter = createFakeRateLimiter(() => 0);
+    const env: Partial<IngestEnv> = {
+      PIPELINE: createPipeline().binding,
+      RATE_LIMITER: limiter.namespace,
+      RATE_LIMIT_KEY_EVENTS_PER_SECOND: '100',
+    };
+
+    const batch = Array.from({ length: 3 }, (_, i) => ({ type: 'track', userId: 'user-1', event: `E${i}` }));
+    await request(app, '/v1/batch', post({ batch }), env);
+
+    assert.equal(limiter.instances.get('key:default')?.inspect(0).events?.tokens, 97);
+  });
+});
+
+describe('deduplication', () => {
+  it('drops a messageId that was already accepted', async () => {
+    const app = createIngestApp();
+    const pipeline = createPipeline();
+    const env: Partial<IngestEnv> = { PIPELINE: pipeline.binding, DEDUP: createFakeKv().binding };
+
+    await request(app, '/v1/track', post({ userId: 'user-1', event: 'Signed Up', messageId: 'm1' }), env);
+    await Promise.all(pending);
+    const response = await request(app, '/v1/track', post({ userId: 'user-1', event: 'Signed Up', messageId: 'm1' }), env);
+
+    assert.equal(response.status, 200);
+    assert.equal(((await response.json()) as { duplicates: number }).duplicates, 1);
+    assert.equal(pipeline.sent.length, 1);
+  });
+
+  it('accepts events when KV is unavailable', async () => {
+    const app = createIngestApp();
+    const pipeline = createPipeline();
+    const env: Partial<IngestEnv> = { PIPELINE: pipeline.binding, DEDUP: createFakeKv(true).binding };
+
+    const response = await request(app, '/v1/track', post({ userId: 'user-1', event: 'Signed Up', messageId: 'm1' }), env);
+
+    assert.equal(response.status, 200);
+    assert.equal(pipeline.sent.length, 1);
+  });
+
+  it('checks and records at most 100 messageIds per request in one bulk read', async () => {
+    const app = createIngestApp();
+    const pipeline = createPipeline();
+    const kv = createFakeKv();
+    const env: Partial<IngestEnv> = { PIPELINE: pipeline.binding, DEDUP: kv.binding };
+
+    const batch = Array.from({ length: 150 }, (_, i) => ({ type: 'track', userId: 'user-1', event: 'Clicked', messageId: `m${i}` }));
+    const response = await request(app, '/v1/batch', post({ batch }), env);
+    await Promise.all(pending);
+
+    assert.equal(response.status, 200);
+    assert.equal(pipeline.sent.length, 150);
+    assert.equal(kv.reads, 1);
+    assert.equal(kv.writes, 100);
+  });
+});
+
+describe('webhooks', () => {
+  it('stores a delivery without a customer with no identity, tagged with its source', async () => {
+    const app = createIngestApp();
+    const pipeline = createPipeline();
+    const env: Partial<IngestEnv> = {
+      PIPELINE: pipeline.binding,
+      WEBHOOK_MAPPINGS: JSON.stringify({
+        acme: {
+          signature: { header: 'X-Acme-Signature', encoding: 'hex' },
+          mapping: { typePath: '$.kind', events: { 'order.created': { event: 'Order Created', userId: '$.customer', messageId: '$.id' } } },
+        },
+      }),
+      WEBHOOK_SECRETS: JSON.stringify({ acme: 'secret' }),
+    };
+    const body = JSON.stringify({ id: 'evt_1', kind: 'order.created', customer: null });
+
+    const response = await request(app, '/v1/webhooks/acme', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Acme-Signature': createHmac('sha256', 'secret').update(body).digest('hex') },
+      body,
+    }, env);
+
+    assert.equal(response.status, 200);
+    const [event] = pipeline.sent as Array<Record<string, unknown>>;
+    assert.equal(event.user_id, null);
+    assert.equal(event.anonymous_id, null);
+    assert.deepEqual((event.context as { webhook: unknown }).webhook, { source: 'acme', type: 'order.created' });
+  });
+});
+
+describe('tracking pixel', () => {
+  it('returns the GIF when the write key is rejected', async () => {
+    const app = createIngestApp();
+    const pipeline = createPipeline();
+    const env: Partial<IngestEnv> = {
+      PIPELINE: pipeline.binding,
+      AUTH_ENABLED: 'true',
+      AUTH_TOKEN: 'secret',
+    };
+
+    const response = await request(app, '/v1/pixel.gif?writeKey=wrong&userId=user-1&event=Email%20Opened', {}, env);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('Content-Type'), 'image/gif');
+    assert.equal(pipeline.sent.length, 0);
+  });
+
+  it('decodes base64 data whose + was not percent-encoded', async () => {
+    const app = createIngestApp();
+    const pipeline = createPipeline();
+    const env: Partial<IngestEnv> = { PIPELINE: pipeline.binding };
+
+    // {"userId":"user-1","event":"Opened ~~~"} encodes with a +
+    const data = 'eyJ1c2VySWQiOiJ1c2VyLTEiLCJldmVudCI6Ik9wZW5lZCB+fn4ifQ==';
+    const response = await request(app, `/v1/t?data=${data}`, {}, env);
+
+    assert.equal(response.status, 200);
+    const [event] = pipeline.sent as Array<Record<string, unknown>>;
+    assert.equal(event.event, 'Opened ~~~');
+  });
+
+  it('returns the GIF when D1 is unavailable', async () => {
+    const app = createIngestApp();
+    const env: Partial<IngestEnv> = {
+      PIPELINE: createPipeline().binding,
+      DB: unavailableDb,
+    };
+
+    const response = await request(app, '/v1/t?userId=user-1&event=Email%20Opened', {}, env);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('Content-Type'), 'image/gif');
+  });
+});
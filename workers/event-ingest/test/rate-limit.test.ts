@@ -0,0 +1,137 @@
+/**
+ * Tests for the rate limiter token buckets and limit checks
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimitBuckets } from '../src/rate-limit/bucket.js';
+import { checkRateLimits, countRequestEvents, type RateLimitConfig } from '../src/rate-limit/check.js';
+import { createFakeRateLimiter } from './fake-rate-limiter.js';
+
+const NO_LIMITS = { eventsPerSecond: null, requestsPerMinute: null };
+
+describe('RateLimitBuckets', () => {
+  it('takes events until the bucket is empty, then asks the client to wait', () => {
+    const buckets = new RateLimitBuckets();
+    const limits = { eventsPerSecond: 10, requestsPerMinute: null };
+
+    assert.deepEqual(buckets.consume(limits, 6, 0), { allowed: true, retryAfter: 0 });
+    assert.deepEqual(buckets.consume(limits, 4, 0), { allowed: true, retryAfter: 0 });
+    assert.deepEqual(buckets.consume(limits, 5, 0), { allowed: false, retryAfter: 1 });
+    assert.equal(buckets.inspect(0).throttled, 1);
+  });
+
+  it('refills continuously', () => {
+    const buckets = new RateLimitBuckets();
+    const limits = { eventsPerSecond: 10, requestsPerMinute: null };
+
+    buckets.consume(limits, 10, 0);
+    assert.equal(buckets.consume(limits, 5, 400).allowed, false);
+    assert.equal(buckets.consume(limits, 5, 500).allowed, true);
+  });
+
+  it('accepts a batch larger than the bucket once full, leaving it in debt', () => {
+    const buckets = new RateLimitBuckets();
+    const limits = { eventsPerSecond: 10, requestsPerMinute: null };
+
+    assert.equal(buckets.consume(limits, 25, 0).allowed, true);
+    assert.equal(buckets.inspect(0).events?.tokens, -15);
+    assert.deepEqual(buckets.consume(limits, 1, 0), { allowed: false, retryAfter: 2 });
+  });
+
+  it('limits requests per minute independently of their size', () => {
+    const buckets = new RateLimitBuckets();
+    const limits = { eventsPerSecond: null, requestsPerMinute: 2 };
+
+    assert.equal(buckets.consume(limits, 100, 0).allowed, true);
+    assert.equal(buckets.consume(limits, 100, 0).allowed, true);
+    assert.deepEqual(buckets.consume(limits, 1, 0), { allowed: false, retryAfter: 30 });
+  });
+
+  it('takes nothing from either bucket when one of them is short', () => {
+    const buckets = new RateLimitBuckets();
+    const limits = { eventsPerSecond: 10, requestsPerMinute: 60 };
+
+    assert.equal(buckets.consume(limits, 20, 0).allowed, true);
+    assert.equal(buckets.consume(limits, 1, 0).allowed, false);
+    assert.equal(buckets.inspect(0).requests?.tokens, 59);
+  });
+
+  it('gives refunded tokens back up to the capacity', () => {
+    const buckets = new RateLimitBuckets();
+    const limits = { eventsPerSecond: 10, requestsPerMinute: 60 };
+
+    buckets.consume(limits, 4, 0);
+    buckets.refund(4, 0);
+    buckets.refund(4, 0);
+
+    const state = buckets.inspect(0);
+    assert.equal(state.events?.tokens, 10);
+    assert.equal(state.requests?.tokens, 60);
+  });
+
+  it('allows everything when no limit is set', () => {
+    const buckets = new RateLimitBuckets();
+
+    assert.equal(buckets.consume(NO_LIMITS, 1_000_000, 0).allowed, true);
+    assert.deepEqual(buckets.inspect(0), { events: null, requests: null, throttled: 0 });
+  });
+});
+
+describe('checkRateLimits', () => {
+  const config: RateLimitConfig = {
+    key: { eventsPerSecond: 10, requestsPerMinute: null },
+    ip: { eventsPerSecond: 100, requestsPerMinute: null },
+  };
+
+  it('refunds the IP bucket when the key limit rejects a request', async () => {
+    const { namespace, instances } = createFakeRateLimiter(() => 0);
+
+    assert.equal((await checkRateLimits(namespace, config, 'src-1', '203.0.113.7', 10)).allowed, true);
+    const result = await checkRateLimits(namespace, config, 'src-1', '203.0.113.7', 5);
+
+    assert.deepEqual(result, { allowed: false, retryAfter: 1, scope: 'key' });
+    assert.equal(instances.get('ip:203.0.113.7')?.inspect(0).events?.tokens, 90);
+  });
+
+  it('does not charge the key when the IP limit rejects a request', async () => {
+    const { namespace, instances } = createFakeRateLimiter(() => 0);
+    const tightIp = { ...config, ip: { eventsPerSecond: 5, requestsPerMinute: null } };
+
+    await checkRateLimits(namespace, tightIp, 'src-1', '203.0.113.7', 5);
+    const result = await checkRateLimits(namespace, tightIp, 'src-1', '203.0.113.7', 5);
+
+    assert.equal(result.scope, 'ip');
+    assert.equal(instances.get('key:src-1')?.inspect(0).events?.tokens, 5);
+  });
+
+  it('allows the request when the limiter is unreachable', async () => {
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: () => ({
+        consume: async () => {
+          throw new Error('Durable Object unavailable');
+        },
+      }),
+    } as unknown as Parameters<typeof checkRateLimits>[0];
+
+    assert.deepEqual(await checkRateLimits(namespace, config, 'src-1', null, 1), { allowed: true, retryAfter: 0 });
+  });
+});
+
+describe('countRequestEvents', () => {
+  it('counts batch items, Mixpanel arrays and Amplitude or GA4 events', () => {
+    assert.equal(countRequestEvents({ batch: [{}, {}, {}] }), 3);
+    assert.equal(countRequestEvents([{}, {}]), 2);
+    assert.equal(countRequestEvents({ api_key: 'key', events: [{}, {}] }), 2);
+  });
+
+  it('counts anything else as one event', () => {
+    assert.equal(countRequestEvents({ type: 'track', event: 'Signed Up' }), 1);
+    assert.equal(countRequestEvents({ batch: [] }), 1);
+    assert.equal(countRequestEvents(undefined), 1);
+  });
+});
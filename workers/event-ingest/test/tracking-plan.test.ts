@@ -0,0 +1,51 @@
+/**
+ * Tests for tracking plan enforcement
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { flattenEvent, type AnalyticsEvent, type TrackingPlan } from '@icelight/core';
+import { enforceTrackingPlan, UNPLANNED_LABEL } from '../src/tracking-plan/store.js';
+
+const plan: TrackingPlan = {
+  events: {
+    'Order Completed': { type: 'object', required: ['total'] },
+  },
+  identifyTraits: { type: 'object', required: ['email'] },
+};
+
+function event(fields: Record<string, unknown>) {
+  return flattenEvent({ userId: 'user-1', ...fields } as unknown as AnalyticsEvent, '2026-01-01T00:00:00.000Z');
+}
+
+describe('enforceTrackingPlan', () => {
+  it('counts violations by planned event name, and unplanned names under one label', () => {
+    const result = enforceTrackingPlan(
+      [
+        event({ type: 'track', event: 'Order Completed', properties: {} }),
+        event({ type: 'track', event: 'Made Up 1' }),
+        event({ type: 'track', event: 'Made Up 2' }),
+        event({ type: 'identify', traits: {} }),
+        event({ type: 'track', event: 'Order Completed', properties: { total: 42 } }),
+      ],
+      plan,
+      'warn'
+    );
+
+    assert.deepEqual(
+      result.violationCounts,
+      new Map([['Order Completed', 1], [UNPLANNED_LABEL, 2], ['identify', 1]])
+    );
+    assert.equal(result.events.length, 5);
+  });
+
+  it('drops violating events in block mode', () => {
+    const result = enforceTrackingPlan([event({ type: 'track', event: 'Made Up' })], plan, 'block');
+
+    assert.equal(result.events.length, 0);
+    assert.equal(result.blocked[0].errors[0], 'Unplanned event: "Made Up"');
+  });
+});
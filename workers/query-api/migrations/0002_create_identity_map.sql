@@ -0,0 +1,16 @@
+-- Identity map: each linked identifier and the person it resolves to
+CREATE TABLE IF NOT EXISTS identity_map (
+  identifier TEXT PRIMARY KEY NOT NULL,
+  canonical_user_id TEXT NOT NULL,
+  resolved_at TEXT NOT NULL
+);
+
+-- Index for listing all identifiers of a person
+CREATE INDEX IF NOT EXISTS idx_identity_map_canonical ON identity_map (canonical_user_id);
+
+-- Staging table filled by the identity resolution job before the swap
+CREATE TABLE IF NOT EXISTS identity_map_staging (
+  identifier TEXT PRIMARY KEY NOT NULL,
+  canonical_user_id TEXT NOT NULL,
+  resolved_at TEXT NOT NULL
+);
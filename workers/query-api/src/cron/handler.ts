@@ -5,11 +5,13 @@
  * 1. Generate ~5,000 realistic analytics events for the prior 24 hours
  * 2. Send them to the ingest API via service binding
  * 3. Reset the default dashboard to its original configuration
+ * 4. Rebuild the identity map from alias and identify links
  */
 import { eq } from 'drizzle-orm';
 import { generateDailyEvents } from '../event-generator/index.js';
 import { createDb, schema } from '../db/index.js';
 import { defaultDashboardConfig, DEFAULT_DASHBOARD_ID } from '../dashboards/default-dashboard.js';
+import { resolveIdentities } from '../identity/resolve.js';
 import type { AnalyticsEvent } from '@icelight/core';
 
 /**
@@ -20,8 +22,14 @@ export interface CronEnv {
   INGEST_API?: Fetcher;
   /** URL fallback for ingest API (for testing) */
   INGEST_API_URL?: string;
-  /** D1 database for dashboard storage */
+  /** D1 database for dashboard and identity map storage */
   DB?: D1Database;
+  /** Service binding to the DuckDB API worker (for identity resolution) */
+  DUCKDB_API?: Fetcher;
+  /** URL fallback for the DuckDB API */
+  DUCKDB_API_URL?: string;
+  /** Optional bearer token for the DuckDB API */
+  DUCKDB_API_TOKEN?: string;
 }
 
 /**
@@ -168,5 +176,14 @@ export async function handleScheduled(
     console.error(`Dashboard reset failed: ${resetResult.error}`);
   }
 
+  // 4. Rebuild identity map
+  console.log('Resolving identities...');
+  try {
+    const identities = await resolveIdentities(env);
+    console.log(`Resolved ${identities.identifiers} identifiers to ${identities.people} people`);
+  } catch (error) {
+    console.error(`Identity resolution failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
   console.log('Cron job completed');
 }
@@ -1,4 +1,4 @@
-import { type CubeJsonConfig, mergeCubeConfig } from './query/index.js';
+import { type CubeJsonConfig, type SessionsCubeOptions, mergeCubeConfig } from './query/index.js';
 
 /**
  * Cube JSON field configuration for this deployment
@@ -19,7 +19,12 @@ export const cubeConfig: CubeJsonConfig = mergeCubeConfig({
 
   // Add custom context fields (merged with defaults)
   context: [
-    // Example: { name: 'region', title: 'Region', path: '$.geo.region', type: 'string' },
+    // Example: { name: 'postalCode', title: 'Postal Code', path: '$.geo.postalCode', type: 'string' },
+  ],
+
+  // Add custom account traits from group events (merged with defaults)
+  groupTraits: [
+    // Example: { name: 'region', title: 'Region', path: '$.region', type: 'string' },
   ],
 });
 
@@ -33,4 +38,15 @@ export const cubeConfig: CubeJsonConfig = mergeCubeConfig({
 //   properties: [...],
 //   traits: [...],
 //   context: [...],
+//   groupTraits: [...],
 // });
+
+/**
+ * Session model for the Sessions cube
+ *
+ * Events from the same visitor more than this many minutes apart belong to
+ * different sessions.
+ */
+export const sessionsConfig: SessionsCubeOptions = {
+  inactivityTimeoutMinutes: 30,
+};
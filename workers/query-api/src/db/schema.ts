@@ -20,3 +20,25 @@ export const dashboards = sqliteTable('dashboards', {
 
 export type Dashboard = typeof dashboards.$inferSelect;
 export type NewDashboard = typeof dashboards.$inferInsert;
+
+/**
+ * Identity map table - each linked identifier and the person it resolves to,
+ * rebuilt by the identity resolution job
+ */
+export const identityMap = sqliteTable('identity_map', {
+  identifier: text('identifier').primaryKey(),
+  canonicalUserId: text('canonical_user_id').notNull(),
+  resolvedAt: text('resolved_at').notNull(),
+});
+
+/**
+ * Staging table the identity resolution job fills before swapping its rows
+ * into identity_map
+ */
+export const identityMapStaging = sqliteTable('identity_map_staging', {
+  identifier: text('identifier').primaryKey(),
+  canonicalUserId: text('canonical_user_id').notNull(),
+  resolvedAt: text('resolved_at').notNull(),
+});
+
+export type IdentityMapping = typeof identityMap.$inferSelect;
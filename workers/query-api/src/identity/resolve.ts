@@ -0,0 +1,94 @@
+/**
+ * Identity resolution job
+ *
+ * Runs the identity map query on DuckDB and stores the result in D1, so an
+ * identifier's person can be looked up without scanning events. The map is
+ * read a page at a time into a staging table, then swapped into identity_map
+ * in one batch, so lookups never see a partial map and the worker never holds
+ * more than one page.
+ */
+import { drizzle } from '@leonardovida-md/drizzle-neo-duckdb';
+import { asc, gt, sql } from 'drizzle-orm';
+import { createDuckDbConnection, type QueryEnv } from '../query/handler.js';
+import { events } from '../query/schema/events.js';
+import { buildIdentityMapQuery } from '../query/cubes/identity.js';
+import { createDb } from '../db/index.js';
+import { identityMap, identityMapStaging } from '../db/schema.js';
+import type { IdentityResolutionSummary } from './types.js';
+
+/**
+ * Environment bindings for identity resolution
+ */
+export type IdentityEnv = Pick<QueryEnv, 'DB' | 'DUCKDB_API' | 'DUCKDB_API_URL' | 'DUCKDB_API_TOKEN'>;
+
+// Identifiers read from DuckDB and written to D1 per page
+const PAGE_SIZE = 1000;
+
+// D1 allows 100 bound parameters per statement (3 per row)
+const INSERT_CHUNK_SIZE = 33;
+
+/**
+ * Split an array into chunks of a specified size
+ */
+function chunk<T>(array: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < array.length; i += size) {
+    chunks.push(array.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Rebuild the D1 identity map from the events table
+ */
+export async function resolveIdentities(env: IdentityEnv): Promise<IdentityResolutionSummary> {
+  if (!env.DB) {
+    throw new Error('Identity storage not configured (D1 binding missing)');
+  }
+  if (!env.DUCKDB_API && !env.DUCKDB_API_URL) {
+    throw new Error('DuckDB API not configured: DUCKDB_API (binding) or DUCKDB_API_URL is required');
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const duckDb = await drizzle(createDuckDbConnection(env) as any, { schema: { events } });
+  const identities = buildIdentityMapQuery();
+  const db = createDb(env.DB);
+  const resolvedAt = new Date().toISOString();
+
+  // Clear leftovers from a run that failed before its swap
+  await db.delete(identityMapStaging);
+
+  // Page by identifier, so each page is one bounded query and one D1 batch
+  let identifiers = 0;
+  let after: string | undefined;
+  for (;;) {
+    const rows = await duckDb
+      .select({ identifier: identities.identifier, canonicalUserId: identities.canonicalUserId })
+      .from(identities)
+      .where(after === undefined ? undefined : gt(identities.identifier, after))
+      .orderBy(asc(identities.identifier))
+      .limit(PAGE_SIZE);
+    if (rows.length === 0) break;
+
+    const staged = rows.map(row => ({ ...row, resolvedAt }));
+    const [first, ...rest] = chunk(staged, INSERT_CHUNK_SIZE).map(values => db.insert(identityMapStaging).values(values));
+    await db.batch([first, ...rest]);
+
+    identifiers += rows.length;
+    if (rows.length < PAGE_SIZE) break;
+    after = rows[rows.length - 1].identifier;
+  }
+
+  // Swap the staged rows in; the copy runs inside D1, not in the worker
+  await db.batch([
+    db.delete(identityMap),
+    db.insert(identityMap).select(db.select().from(identityMapStaging)),
+    db.delete(identityMapStaging),
+  ]);
+
+  const [{ people }] = await db
+    .select({ people: sql<number>`COUNT(DISTINCT ${identityMap.canonicalUserId})` })
+    .from(identityMap);
+
+  return { identifiers, people, resolvedAt };
+}
@@ -0,0 +1,83 @@
+/**
+ * Identity routes for Hono
+ */
+import { Hono } from 'hono';
+import { bearerAuth } from 'hono/bearer-auth';
+import { asc, eq } from 'drizzle-orm';
+import { createDb } from '../db/index.js';
+import { identityMap } from '../db/schema.js';
+import { resolveIdentities, type IdentityEnv } from './resolve.js';
+import type { IdentityResponse, IdentityResolutionResponse } from './types.js';
+
+/**
+ * Environment type for identity routes
+ */
+interface IdentityRoutesEnv extends IdentityEnv {
+  API_TOKEN?: string;
+}
+
+/**
+ * Create identity routes
+ */
+export function createIdentityRoutes() {
+  const app = new Hono<{ Bindings: IdentityRoutesEnv }>();
+
+  // Identities link user IDs across devices, so they use the query API token
+  app.use('*', async (c, next) => {
+    if (c.env.API_TOKEN) {
+      return bearerAuth({ token: c.env.API_TOKEN })(c, next);
+    }
+    await next();
+  });
+
+  // Middleware to check D1 binding
+  app.use('*', async (c, next) => {
+    if (!c.env.DB) {
+      return c.json({ success: false, error: 'Identity storage not configured (D1 binding missing)' }, 500);
+    }
+    await next();
+  });
+
+  // POST /api/identities/resolve - Rebuild the identity map now instead of waiting for the cron
+  app.post('/resolve', async (c) => {
+    try {
+      const data = await resolveIdentities(c.env);
+      return c.json({ success: true, data } satisfies IdentityResolutionResponse);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.json({ success: false, error: message } satisfies IdentityResolutionResponse, 500);
+    }
+  });
+
+  // GET /api/identities/:identifier - Person an anonymous ID or user ID resolves to
+  app.get('/:identifier', async (c) => {
+    const db = createDb(c.env.DB!);
+
+    const [mapping] = await db
+      .select()
+      .from(identityMap)
+      .where(eq(identityMap.identifier, c.req.param('identifier')))
+      .limit(1);
+
+    if (!mapping) {
+      return c.json({ success: false, error: 'Identity not found' } satisfies IdentityResponse, 404);
+    }
+
+    const linked = await db
+      .select({ identifier: identityMap.identifier })
+      .from(identityMap)
+      .where(eq(identityMap.canonicalUserId, mapping.canonicalUserId))
+      .orderBy(asc(identityMap.identifier));
+
+    return c.json({
+      success: true,
+      data: {
+        canonicalUserId: mapping.canonicalUserId,
+        identifiers: linked.map(row => row.identifier),
+        resolvedAt: mapping.resolvedAt,
+      },
+    } satisfies IdentityResponse);
+  });
+
+  return app;
+}
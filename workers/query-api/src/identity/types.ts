@@ -0,0 +1,35 @@
+/**
+ * Identity API types
+ */
+
+/**
+ * A person and all identifiers linked to them
+ */
+export interface IdentityRecord {
+  canonicalUserId: string;
+  identifiers: string[];
+  resolvedAt: string;
+}
+
+/**
+ * Outcome of an identity resolution run
+ */
+export interface IdentityResolutionSummary {
+  /** Linked identifiers stored in the identity map */
+  identifiers: number;
+  /** Distinct people those identifiers resolve to */
+  people: number;
+  resolvedAt: string;
+}
+
+export interface IdentityResponse {
+  success: boolean;
+  data?: IdentityRecord;
+  error?: string;
+}
+
+export interface IdentityResolutionResponse {
+  success: boolean;
+  data?: IdentityResolutionSummary;
+  error?: string;
+}
@@ -1,13 +1,48 @@
 import { Hono } from 'hono';
-import { createQueryApp, createEventsCube } from './query/index.js';
+import {
+  createQueryApp,
+  createEventsCube,
+  createSessionsCube,
+  createUsersCube,
+  createAccountsCube,
+  identitiesCube,
+} from './query/index.js';
 import type { QueryEnv } from './query/index.js';
-import { cubeConfig } from './cube-config.js';
+import { parsePromotedColumns, type PromotedColumn } from '@icelight/core';
+import type { Cube } from 'drizzle-cube/server';
+import { cubeConfig, sessionsConfig } from './cube-config.js';
 import { CloudflareKVProvider } from './cache/cloudflare-kv-provider.js';
 import { createDashboardRoutes } from './dashboards/routes.js';
+import { createIdentityRoutes } from './identity/routes.js';
 import { handleScheduled, type CronEnv } from './cron/handler.js';
 
-// Create cube with custom configuration
-const eventsCube = createEventsCube(cubeConfig);
+// Create cubes with custom configuration
+function createCubes(promotedColumns: PromotedColumn[]): Cube[] {
+  const config = { ...cubeConfig, promotedColumns };
+  const usersCube = createUsersCube(config);
+  const eventsCube = createEventsCube(config, usersCube);
+  const sessionsCube = createSessionsCube({ ...sessionsConfig, promotedColumns });
+  const accountsCube = createAccountsCube(config);
+  return [eventsCube, sessionsCube, usersCube, accountsCube, identitiesCube];
+}
+
+// Cubes read promoted columns listed in PROMOTED_COLUMNS, so they are built
+// from env once per isolate (and again if the value changes)
+let cached: { raw: string | undefined; cubes: Cube[] } | undefined;
+
+function getCubes(env: QueryEnv): Cube[] {
+  if (cached && cached.raw === env.PROMOTED_COLUMNS) {
+    return cached.cubes;
+  }
+  // A bad list only costs speed: the JSON fields are kept, so fall back to them
+  const promoted = parsePromotedColumns(env.PROMOTED_COLUMNS);
+  if (!promoted.success) {
+    console.error('[query] Invalid PROMOTED_COLUMNS:', promoted.message);
+  }
+  const cubes = createCubes(promoted.success ? promoted.columns : []);
+  cached = { raw: env.PROMOTED_COLUMNS, cubes };
+  return cubes;
+}
 
 // Create the query app with cube configuration
 // The app handles query endpoints:
@@ -24,10 +59,11 @@ const eventsCube = createEventsCube(cubeConfig);
 // - API_TOKEN: (optional) Bearer token to require for API access
 // - ALLOWED_ORIGINS: (optional) Comma-separated list of allowed CORS origins
 // - CACHE: (optional) KV namespace binding for drizzle-cube query caching
-// - DB: (optional) D1 database binding for dashboard storage
+// - DB: (optional) D1 database binding for dashboard and identity map storage
+// - PROMOTED_COLUMNS: (optional) JSON array of promoted columns, same value as the ingest worker
 
 const queryApp = createQueryApp({
-  cubes: [eventsCube],
+  cubes: getCubes,
   cache: {
     providerFactory: (kv) => new CloudflareKVProvider(kv),
     defaultTtlMs: 3600000, // 60 minutes
@@ -42,6 +78,9 @@ const app = new Hono<{ Bindings: QueryEnv }>();
 // Mount dashboard routes at /api/dashboards
 app.route('/api/dashboards', createDashboardRoutes());
 
+// Mount identity lookup and resolution routes at /api/identities
+app.route('/api/identities', createIdentityRoutes());
+
 // Mount the query app for all other routes
 app.route('/', queryApp);
 
@@ -0,0 +1,166 @@
+import { eq, sql } from 'drizzle-orm';
+import { QueryBuilder } from 'drizzle-orm/pg-core';
+import { defineCube } from 'drizzle-cube/server';
+import type { Cube } from 'drizzle-cube/server';
+import type { PromotedColumn } from '@icelight/core';
+import { events } from '../schema/events.js';
+import { jsonExtract, jsonField } from './json-helpers.js';
+import { DEFAULT_CUBE_CONFIG, type CubeJsonConfig, type JsonFieldConfig } from './json-config.js';
+
+// Note: Type assertions needed due to drizzle-orm version mismatch
+// drizzle-cube expects ^0.45.0, we're using 0.44.x
+// TODO: Remove assertions after drizzle-cube is updated
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Build the account events subquery
+ *
+ * One row per event and account the event's user belongs to. Membership and
+ * account traits come from group events: a user (userId, or anonymousId
+ * without one) belongs to every group they sent a group call for, and each
+ * configured group trait is the group's latest non-null value.
+ */
+export function buildAccountEventsQuery(traits: JsonFieldConfig[] = [], promoted: PromotedColumn[] = []) {
+  const qb = new QueryBuilder();
+  const memberId = sql<string>`COALESCE(${events.userId}, ${events.anonymousId})`;
+  const isGroupCall = sql`${events.type} = 'group' AND ${events.groupId} IS NOT NULL`;
+
+  const memberships = qb
+    .selectDistinct({
+      groupId: events.groupId,
+      memberId: memberId.as('member_id'),
+    })
+    .from(events)
+    .where(sql`${isGroupCall} AND ${memberId} IS NOT NULL`)
+    .as('account_memberships');
+
+  const groupTraits = qb
+    .select({
+      ...Object.fromEntries(
+        traits.map(trait => {
+          const value = jsonExtract('traits', trait.path, trait.type);
+          return [trait.name, sql`arg_max(${value}, ${events.timestamp}) FILTER (WHERE ${value} IS NOT NULL)`.as(`trait_${trait.name}`)];
+        })
+      ),
+      traitsGroupId: sql<string>`${events.groupId}`.as('traits_group_id'),
+    })
+    .from(events)
+    .where(isGroupCall)
+    .groupBy(events.groupId)
+    .as('account_traits');
+
+  return qb
+    .select({
+      ...Object.fromEntries(traits.map(trait => [trait.name, (groupTraits as any)[trait.name]])),
+      groupId: memberships.groupId,
+      memberId: memberships.memberId,
+      messageId: events.messageId,
+      timestamp: events.timestamp,
+      revenue: sql<number | null>`${jsonField('properties', '$.revenue', 'number', promoted)}`.as('revenue'),
+    })
+    .from(events)
+    .innerJoin(memberships, eq(memberships.memberId, memberId))
+    .leftJoin(groupTraits, eq(groupTraits.traitsGroupId, memberships.groupId))
+    .as('account_events');
+}
+
+/**
+ * Create the accounts cube with a dimension per configured group trait
+ */
+export function createAccountsCube(config: CubeJsonConfig = DEFAULT_CUBE_CONFIG): Cube {
+  const traits = config.groupTraits ?? [];
+  const accountEvents = buildAccountEventsQuery(traits, config.promotedColumns) as any;
+
+  const traitDimensions = Object.fromEntries(
+    traits.map(trait => [
+      trait.name,
+      {
+        name: trait.name,
+        title: trait.title ?? trait.name,
+        type: trait.type,
+        sql: accountEvents[trait.name],
+        shown: trait.shown ?? true,
+      },
+    ])
+  );
+
+  return defineCube('Accounts', {
+    title: 'Accounts',
+    description: 'Activity of groups (accounts) and their members, from group events',
+    public: true,
+
+    sql: () => ({
+      from: accountEvents,
+    }),
+
+    dimensions: {
+      // An event appears once per account of its user, so a row is keyed by
+      // groupId and messageId together
+      groupId: {
+        name: 'groupId',
+        title: 'Group ID',
+        type: 'string',
+        sql: accountEvents.groupId,
+        primaryKey: true,
+      },
+      memberId: {
+        name: 'memberId',
+        title: 'Member ID',
+        type: 'string',
+        sql: accountEvents.memberId,
+      },
+      messageId: {
+        name: 'messageId',
+        title: 'Message ID',
+        type: 'string',
+        sql: accountEvents.messageId,
+        primaryKey: true,
+        shown: false,
+      },
+      timestamp: {
+        name: 'timestamp',
+        title: 'Event Timestamp',
+        type: 'time',
+        sql: accountEvents.timestamp,
+      },
+      ...traitDimensions,
+    } as any,
+
+    measures: {
+      activeAccounts: {
+        name: 'activeAccounts',
+        title: 'Active Accounts',
+        type: 'countDistinct',
+        sql: accountEvents.groupId,
+      },
+      activeMembers: {
+        name: 'activeMembers',
+        title: 'Active Members',
+        type: 'countDistinct',
+        sql: accountEvents.memberId,
+      },
+      usersPerAccount: {
+        name: 'usersPerAccount',
+        title: 'Users per Account',
+        type: 'calculated',
+        calculatedSql: '{activeMembers} / NULLIF({activeAccounts}, 0)',
+      },
+      totalRevenue: {
+        name: 'totalRevenue',
+        title: 'Total Revenue',
+        type: 'sum',
+        sql: accountEvents.revenue,
+      },
+      revenuePerAccount: {
+        name: 'revenuePerAccount',
+        title: 'Revenue per Account',
+        type: 'calculated',
+        calculatedSql: '{totalRevenue} / NULLIF({activeAccounts}, 0)',
+      },
+    } as any,
+  }) as Cube;
+}
+
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export const accountsCube = createAccountsCube();
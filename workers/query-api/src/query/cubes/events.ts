@@ -2,8 +2,12 @@ import { sql } from 'drizzle-orm';
 import { defineCube } from 'drizzle-cube/server';
 import type { Cube } from 'drizzle-cube/server';
 import { events } from '../schema/events.js';
-import { buildJsonDimensions } from './json-helpers.js';
+import { buildJsonDimensions, jsonField } from './json-helpers.js';
 import { DEFAULT_CUBE_CONFIG, type CubeJsonConfig } from './json-config.js';
+import { sessionsCube } from './sessions.js';
+import { buildIdentitiesQuery, identitiesCube } from './identity.js';
+import { buildUsersQuery, createUsersCube, usersCube } from './users.js';
+import { accountsCube } from './accounts.js';
 
 // Note: Type assertions needed due to drizzle-orm version mismatch
 // drizzle-cube expects ^0.45.0, we're using 0.44.x
@@ -12,16 +16,28 @@ import { DEFAULT_CUBE_CONFIG, type CubeJsonConfig } from './json-config.js';
 
 /**
  * Create the events cube with JSON dimensions from configuration
+ *
+ * Events join the given Users cube on userId, so user traits can be used
+ * with any event type, and the Identities cube on messageId for the person
+ * each event belongs to.
  */
-export function createEventsCube(config: CubeJsonConfig = DEFAULT_CUBE_CONFIG): Cube {
+export function createEventsCube(
+  config: CubeJsonConfig = DEFAULT_CUBE_CONFIG,
+  users: Cube = createUsersCube(config)
+): Cube {
   // Build dynamic JSON dimensions from config
-  const propertiesDimensions = buildJsonDimensions('properties', config.properties ?? []);
-  const traitsDimensions = buildJsonDimensions('traits', config.traits ?? []);
-  const contextDimensions = buildJsonDimensions('context', config.context ?? []);
+  const promoted = config.promotedColumns ?? [];
+  const propertiesDimensions = buildJsonDimensions('properties', config.properties ?? [], promoted);
+  const traitsDimensions = buildJsonDimensions('traits', config.traits ?? [], promoted);
+  const contextDimensions = buildJsonDimensions('context', config.context ?? [], promoted);
 
   // Check if revenue field is configured for the measure
   const hasRevenue = config.properties?.some(f => f.name === 'revenue') ?? false;
 
+  // Join keys on the Users and Identities subqueries (same alias and column as the cubes' own)
+  const usersUserId = buildUsersQuery().userId;
+  const identitiesMessageId = buildIdentitiesQuery().messageId;
+
   return defineCube('Events', {
     title: 'Analytics Events',
     description: 'RudderStack/Segment compatible analytics events',
@@ -38,6 +54,19 @@ export function createEventsCube(config: CubeJsonConfig = DEFAULT_CUBE_CONFIG):
       from: events as any,
     }),
 
+    joins: {
+      Users: {
+        targetCube: () => users,
+        relationship: 'belongsTo',
+        on: [{ source: events.userId as any, target: usersUserId as any }],
+      },
+      Identities: {
+        targetCube: () => identitiesCube,
+        relationship: 'hasOne',
+        on: [{ source: events.messageId as any, target: identitiesMessageId as any }],
+      },
+    },
+
     dimensions: {
       // === Core Dimensions ===
       messageId: {
@@ -77,18 +106,50 @@ export function createEventsCube(config: CubeJsonConfig = DEFAULT_CUBE_CONFIG):
         type: 'string',
         sql: events.anonymousId as any,
       },
+      groupId: {
+        name: 'groupId',
+        title: 'Group ID',
+        type: 'string',
+        sql: events.groupId as any,
+      },
       timestamp: {
         name: 'timestamp',
         title: 'Event Timestamp',
         type: 'time',
         sql: events.timestamp as any,
       },
+      originalTimestamp: {
+        name: 'originalTimestamp',
+        title: 'Original Timestamp',
+        type: 'time',
+        sql: events.originalTimestamp as any,
+      },
       receivedAt: {
         name: 'receivedAt',
         title: 'Received At',
         type: 'time',
         sql: events.receivedAt as any,
       },
+      sourceId: {
+        name: 'sourceId',
+        title: 'Source ID',
+        type: 'string',
+        sql: events.sourceId as any,
+      },
+
+      // === Derived Dimensions ===
+      isMobile: {
+        name: 'isMobile',
+        title: 'Is Mobile',
+        type: 'boolean',
+        sql: sql<boolean>`COALESCE(json_extract_string(${events.context}, '$.device.type') = 'mobile', false)` as any,
+      },
+      isBot: {
+        name: 'isBot',
+        title: 'Is Bot',
+        type: 'boolean',
+        sql: sql<boolean>`COALESCE(json_extract_string(${events.context}, '$.bot') = 'true', false)` as any,
+      },
 
       // === Raw JSON Dimensions (for debugging/exploration) ===
       propertiesRaw: {
@@ -144,13 +205,13 @@ export function createEventsCube(config: CubeJsonConfig = DEFAULT_CUBE_CONFIG):
           name: 'totalRevenue',
           title: 'Total Revenue',
           type: 'sum',
-          sql: sql<number>`CAST(json_extract(${events.properties}, '$.revenue') AS DOUBLE)` as any,
+          sql: jsonField('properties', '$.revenue', 'number', promoted) as any,
         },
         avgRevenue: {
           name: 'avgRevenue',
           title: 'Average Revenue',
           type: 'avg',
-          sql: sql<number>`CAST(json_extract(${events.properties}, '$.revenue') AS DOUBLE)` as any,
+          sql: jsonField('properties', '$.revenue', 'number', promoted) as any,
         },
       } : {}),
     },
@@ -160,5 +221,5 @@ export function createEventsCube(config: CubeJsonConfig = DEFAULT_CUBE_CONFIG):
 /* eslint-enable @typescript-eslint/no-explicit-any */
 
 // Default export using default config (for backward compatibility)
-export const eventsCube = createEventsCube();
-export const allCubes = [eventsCube];
+export const eventsCube = createEventsCube(DEFAULT_CUBE_CONFIG, usersCube);
+export const allCubes = [eventsCube, sessionsCube, usersCube, accountsCube, identitiesCube];
@@ -0,0 +1,132 @@
+import { sql } from 'drizzle-orm';
+import { QueryBuilder } from 'drizzle-orm/pg-core';
+import { defineCube } from 'drizzle-cube/server';
+import type { Cube } from 'drizzle-cube/server';
+import { events } from '../schema/events.js';
+
+// Note: Type assertions needed due to drizzle-orm version mismatch
+// drizzle-cube expects ^0.45.0, we're using 0.44.x
+// TODO: Remove assertions after drizzle-cube is updated
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Build the identity map subquery
+ *
+ * Links every identifier to the person it belongs to. Two identifiers are
+ * linked when an event carries both an anonymousId and a userId, or when an
+ * alias event merges previousId into userId; links are followed transitively,
+ * so a chain of aliases and devices resolves to one person. Each person's
+ * canonical user ID is the earliest-seen user ID among their identifiers,
+ * which keeps it stable as new links arrive.
+ *
+ * Identifiers that were never linked have no row; callers fall back to the
+ * event's own userId or anonymousId.
+ */
+export function buildIdentityMapQuery() {
+  const qb = new QueryBuilder();
+
+  const members = sql`(
+    WITH RECURSIVE
+      links(a, b) AS (
+        SELECT ${events.anonymousId}, ${events.userId} FROM ${events}
+        WHERE ${events.anonymousId} IS NOT NULL AND ${events.userId} IS NOT NULL AND ${events.anonymousId} <> ${events.userId}
+        UNION
+        SELECT ${events.previousId}, ${events.userId} FROM ${events}
+        WHERE ${events.type} = 'alias' AND ${events.previousId} IS NOT NULL AND ${events.userId} IS NOT NULL AND ${events.previousId} <> ${events.userId}
+      ),
+      edges(a, b) AS (
+        SELECT a, b FROM links UNION SELECT b, a FROM links
+      ),
+      reach(identifier, member) AS (
+        SELECT a, a FROM edges
+        UNION
+        SELECT edges.b, reach.member FROM reach JOIN edges ON edges.a = reach.identifier
+      ),
+      users(user_id, first_seen) AS (
+        SELECT ${events.userId}, MIN(${events.timestamp}) FROM ${events}
+        WHERE ${events.userId} IS NOT NULL
+        GROUP BY ${events.userId}
+      )
+    SELECT reach.identifier, reach.member, users.first_seen
+    FROM reach JOIN users ON users.user_id = reach.member
+  ) AS identity_members`;
+
+  return qb
+    .select({
+      identifier: sql<string>`identity_members.identifier`.as('identifier'),
+      canonicalUserId: sql<string>`first(identity_members.member ORDER BY identity_members.first_seen, identity_members.member)`.as('canonical_user_id'),
+    })
+    .from(members)
+    .groupBy(sql`identity_members.identifier`)
+    .as('identity_map');
+}
+
+/**
+ * Build the identities subquery
+ *
+ * One row per event with the person it belongs to: the canonical user ID of
+ * its identity, or its own userId/anonymousId when it was never linked.
+ */
+export function buildIdentitiesQuery() {
+  const qb = new QueryBuilder();
+  const identityMap = buildIdentityMapQuery();
+
+  return qb
+    .select({
+      messageId: events.messageId,
+      canonicalUserId: sql<string>`COALESCE(${identityMap.canonicalUserId}, ${events.userId}, ${events.anonymousId})`.as('canonical_user_id'),
+    })
+    .from(events)
+    .leftJoin(identityMap, sql`${identityMap.identifier} = COALESCE(${events.userId}, ${events.anonymousId})`)
+    .as('identities');
+}
+
+/**
+ * Create the identities cube
+ *
+ * Resolving identities scans all events, so it lives in its own cube that
+ * Events joins only when an Identities member is requested.
+ */
+export function createIdentitiesCube(): Cube {
+  const identities = buildIdentitiesQuery() as any;
+
+  return defineCube('Identities', {
+    title: 'Identities',
+    description: 'The person each event belongs to, with linked identifiers merged',
+    public: true,
+
+    sql: () => ({
+      from: identities,
+    }),
+
+    dimensions: {
+      messageId: {
+        name: 'messageId',
+        title: 'Message ID',
+        type: 'string',
+        sql: identities.messageId,
+        primaryKey: true,
+        shown: false,
+      },
+      canonicalUserId: {
+        name: 'canonicalUserId',
+        title: 'Canonical User ID',
+        type: 'string',
+        sql: identities.canonicalUserId,
+      },
+    } as any,
+
+    measures: {
+      uniquePeople: {
+        name: 'uniquePeople',
+        title: 'Unique People',
+        type: 'countDistinct',
+        sql: identities.canonicalUserId,
+      },
+    },
+  }) as Cube;
+}
+
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export const identitiesCube = createIdentitiesCube();
@@ -5,6 +5,8 @@
  * from JSON columns (properties, traits, context) in analytics events.
  */
 
+import type { PromotedColumn } from '@icelight/core';
+
 /**
  * Configuration for a JSON-extracted dimension
  */
@@ -31,6 +33,10 @@ export interface CubeJsonConfig {
   traits?: JsonFieldConfig[];
   /** Fields to extract from context JSON */
   context?: JsonFieldConfig[];
+  /** Account traits from group events, for the Accounts cube */
+  groupTraits?: JsonFieldConfig[];
+  /** Promoted columns (PROMOTED_COLUMNS); fields on their paths read the column (default: none) */
+  promotedColumns?: PromotedColumn[];
 }
 
 /**
@@ -84,6 +90,9 @@ export const DEFAULT_CUBE_CONFIG: CubeJsonConfig = {
     // OS context
     { name: 'osName', title: 'OS Name', path: '$.os.name', type: 'string' },
     { name: 'osVersion', title: 'OS Version', path: '$.os.version', type: 'string' },
+    // Browser context (parsed from userAgent at ingest when not sent)
+    { name: 'browserName', title: 'Browser Name', path: '$.browser.name', type: 'string' },
+    { name: 'browserVersion', title: 'Browser Version', path: '$.browser.version', type: 'string' },
     // Page context
     { name: 'pageUrl', title: 'Page URL', path: '$.page.url', type: 'string' },
     { name: 'pagePath', title: 'Page Path', path: '$.page.path', type: 'string' },
@@ -98,11 +107,22 @@ export const DEFAULT_CUBE_CONFIG: CubeJsonConfig = {
     // Library context
     { name: 'libraryName', title: 'Library Name', path: '$.library.name', type: 'string' },
     { name: 'libraryVersion', title: 'Library Version', path: '$.library.version', type: 'string' },
+    // Geo context (added at ingest from the client IP)
+    { name: 'countryCode', title: 'Country Code', path: '$.geo.country', type: 'string' },
+    { name: 'region', title: 'Region', path: '$.geo.region', type: 'string' },
+    { name: 'city', title: 'City', path: '$.geo.city', type: 'string' },
     // Screen context
     { name: 'screenWidth', title: 'Screen Width', path: '$.screen.width', type: 'number' },
     { name: 'screenHeight', title: 'Screen Height', path: '$.screen.height', type: 'number' },
     { name: 'screenDensity', title: 'Screen Density', path: '$.screen.density', type: 'number' },
   ],
+  groupTraits: [
+    // Group event fields (from simulator)
+    { name: 'accountName', title: 'Account Name', path: '$.name', type: 'string' },
+    { name: 'industry', title: 'Industry', path: '$.industry', type: 'string' },
+    { name: 'employees', title: 'Employees', path: '$.employees', type: 'number' },
+    { name: 'plan', title: 'Plan', path: '$.plan', type: 'string' },
+  ],
 };
 
 /**
@@ -125,6 +145,11 @@ export function mergeCubeConfig(
       ...(DEFAULT_CUBE_CONFIG.context ?? []),
       ...(custom.context ?? []),
     ],
+    groupTraits: [
+      ...(DEFAULT_CUBE_CONFIG.groupTraits ?? []),
+      ...(custom.groupTraits ?? []),
+    ],
+    promotedColumns: custom.promotedColumns,
   };
 }
 
@@ -2,10 +2,11 @@
  * JSON extraction helpers for Drizzle Cube
  *
  * Builds SQL expressions for extracting fields from JSON columns
- * using DuckDB's JSON functions.
+ * using DuckDB's JSON functions, or reading their promoted columns.
  */
 
 import { sql, type SQL } from 'drizzle-orm';
+import type { PromotedColumn, PromotedColumnType } from '@icelight/core';
 import { events } from '../schema/events.js';
 import type { JsonFieldConfig } from './json-config.js';
 
@@ -38,6 +39,43 @@ export function jsonExtract(
   }
 }
 
+/** Promoted column types that can stand in for each dimension type */
+const PROMOTED_TYPES: Record<JsonDimension['type'], PromotedColumnType[]> = {
+  string: ['string'],
+  number: ['float64', 'int64'],
+  boolean: ['bool'],
+};
+
+/**
+ * Find the promoted column holding a JSON field, if there is one of a
+ * compatible type
+ */
+export function findPromotedColumn(
+  column: JsonColumn,
+  path: string,
+  type: 'string' | 'number' | 'boolean' = 'string',
+  promoted: PromotedColumn[] = []
+): PromotedColumn | undefined {
+  const fullPath = `$.${column}${path.slice(1)}`;
+  return promoted.find(p => p.path === fullPath && PROMOTED_TYPES[type].includes(p.type));
+}
+
+/**
+ * Build a SQL expression for a JSON field, reading its typed promoted column
+ * when there is one (no JSON parsing, and Iceberg column statistics apply)
+ */
+export function jsonField(
+  column: JsonColumn,
+  path: string,
+  type: 'string' | 'number' | 'boolean' = 'string',
+  promoted: PromotedColumn[] = []
+): SQL {
+  const promotedColumn = findPromotedColumn(column, path, type, promoted);
+  return promotedColumn
+    ? sql`${events}.${sql.identifier(promotedColumn.name)}`
+    : jsonExtract(column, path, type);
+}
+
 /**
  * Dimension definition type for Drizzle Cube
  */
@@ -54,13 +92,14 @@ export interface JsonDimension {
  */
 export function buildJsonDimension(
   column: JsonColumn,
-  config: JsonFieldConfig
+  config: JsonFieldConfig,
+  promoted: PromotedColumn[] = []
 ): JsonDimension {
   return {
     name: config.name,
     title: config.title ?? config.name,
     type: config.type,
-    sql: jsonExtract(column, config.path, config.type),
+    sql: jsonField(column, config.path, config.type, promoted),
     shown: config.shown ?? true,
   };
 }
@@ -70,12 +109,13 @@ export function buildJsonDimension(
  */
 export function buildJsonDimensions(
   column: JsonColumn,
-  configs: JsonFieldConfig[]
+  configs: JsonFieldConfig[],
+  promoted: PromotedColumn[] = []
 ): Record<string, JsonDimension> {
   const dimensions: Record<string, JsonDimension> = {};
 
   for (const config of configs) {
-    dimensions[config.name] = buildJsonDimension(column, config);
+    dimensions[config.name] = buildJsonDimension(column, config, promoted);
   }
 
   return dimensions;
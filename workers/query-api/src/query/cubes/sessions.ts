@@ -0,0 +1,221 @@
+import { sql } from 'drizzle-orm';
+import { QueryBuilder } from 'drizzle-orm/pg-core';
+import { defineCube } from 'drizzle-cube/server';
+import type { Cube } from 'drizzle-cube/server';
+import type { PromotedColumn } from '@icelight/core';
+import { events } from '../schema/events.js';
+import { jsonField } from './json-helpers.js';
+
+// Note: Type assertions needed due to drizzle-orm version mismatch
+// drizzle-cube expects ^0.45.0, we're using 0.44.x
+// TODO: Remove assertions after drizzle-cube is updated
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Session model options
+ */
+export interface SessionsCubeOptions {
+  /** Minutes without events after which the next event starts a new session (default: 30) */
+  inactivityTimeoutMinutes?: number;
+  /** Promoted columns (PROMOTED_COLUMNS); the page path reads its column when promoted (default: none) */
+  promotedColumns?: PromotedColumn[];
+}
+
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+
+/**
+ * Build the sessions subquery
+ *
+ * Sessions are assigned at query time: track, page and screen events are
+ * grouped per visitor (anonymousId, or userId for events without one) and
+ * ordered by timestamp, and a gap longer than the inactivity timeout starts a
+ * new session. The session ID is the visitor ID plus the session's start
+ * time in epoch ms, so it is stable as later events arrive.
+ */
+export function buildSessionsQuery(
+  timeoutMinutes: number = DEFAULT_SESSION_TIMEOUT_MINUTES,
+  promoted: PromotedColumn[] = []
+) {
+  if (!Number.isInteger(timeoutMinutes) || timeoutMinutes <= 0) {
+    throw new Error('inactivityTimeoutMinutes must be a positive integer');
+  }
+
+  const qb = new QueryBuilder();
+  const timeout = sql.raw(`INTERVAL '${timeoutMinutes} minutes'`);
+  const visitorId = sql`COALESCE(${events.anonymousId}, ${events.userId})`;
+
+  // 1. Flag events that start a session
+  const flagged = qb
+    .select({
+      visitorId: visitorId.as('visitor_id'),
+      userId: sql<string | null>`${events.userId}`.as('user_id'),
+      type: sql<string>`${events.type}`.as('type'),
+      timestamp: sql<Date>`${events.timestamp}`.as('timestamp'),
+      messageId: sql<string>`${events.messageId}`.as('message_id'),
+      pagePath: sql<string | null>`${jsonField('context', '$.page.path', 'string', promoted)}`.as('page_path'),
+      isStart: sql<number>`CASE WHEN ${events.timestamp} - LAG(${events.timestamp}) OVER (PARTITION BY ${visitorId} ORDER BY ${events.timestamp}, ${events.messageId}) <= ${timeout} THEN 0 ELSE 1 END`.as('is_start'),
+    })
+    .from(events)
+    .where(sql`${visitorId} IS NOT NULL AND ${events.type} IN ('track', 'page', 'screen')`)
+    .as('session_events_flagged');
+
+  // 2. Number each visitor's sessions
+  const numbered = qb
+    .select({
+      visitorId: flagged.visitorId,
+      userId: flagged.userId,
+      type: flagged.type,
+      timestamp: flagged.timestamp,
+      pagePath: flagged.pagePath,
+      sessionIndex: sql<number>`SUM(${flagged.isStart}) OVER (PARTITION BY ${flagged.visitorId} ORDER BY ${flagged.timestamp}, ${flagged.messageId} ROWS UNBOUNDED PRECEDING)`.as('session_index'),
+    })
+    .from(flagged)
+    .as('session_events');
+
+  // 3. One row per session
+  const startedAt = sql`MIN(${numbered.timestamp})`;
+  const endedAt = sql`MAX(${numbered.timestamp})`;
+  const eventCount = sql`COUNT(*)`;
+  const pageViews = sql`COUNT(*) FILTER (WHERE ${numbered.type} IN ('page', 'screen'))`;
+  const trackEvents = sql`COUNT(*) FILTER (WHERE ${numbered.type} = 'track')`;
+
+  return qb
+    .select({
+      sessionId: sql<string>`${numbered.visitorId} || '-' || CAST(epoch_ms(${startedAt}) AS VARCHAR)`.as('session_id'),
+      visitorId: sql<string>`${numbered.visitorId}`.as('visitor_id'),
+      userId: sql<string | null>`MAX(${numbered.userId})`.as('user_id'),
+      startedAt: startedAt.as('started_at'),
+      endedAt: endedAt.as('ended_at'),
+      durationSeconds: sql<number>`date_diff('second', ${startedAt}, ${endedAt})`.as('duration_seconds'),
+      eventCount: eventCount.as('event_count'),
+      pageViews: pageViews.as('page_views'),
+      landingPage: sql<string | null>`arg_min(${numbered.pagePath}, ${numbered.timestamp}) FILTER (WHERE ${numbered.pagePath} IS NOT NULL)`.as('landing_page'),
+      exitPage: sql<string | null>`arg_max(${numbered.pagePath}, ${numbered.timestamp}) FILTER (WHERE ${numbered.pagePath} IS NOT NULL)`.as('exit_page'),
+      // A bounce is a session with at most one page or screen view and no track events
+      isBounce: sql<boolean>`(${pageViews} <= 1 AND ${trackEvents} = 0)`.as('is_bounce'),
+    })
+    .from(numbered)
+    .groupBy(numbered.visitorId, numbered.sessionIndex)
+    .as('sessions');
+}
+
+/**
+ * Create the sessions cube
+ */
+export function createSessionsCube(options: SessionsCubeOptions = {}): Cube {
+  const sessions = buildSessionsQuery(
+    options.inactivityTimeoutMinutes ?? DEFAULT_SESSION_TIMEOUT_MINUTES,
+    options.promotedColumns
+  );
+
+  return defineCube('Sessions', {
+    title: 'Sessions',
+    description: 'Visits grouped from events by an inactivity timeout',
+    public: true,
+
+    sql: () => ({
+      from: sessions as any,
+    }),
+
+    dimensions: {
+      sessionId: {
+        name: 'sessionId',
+        title: 'Session ID',
+        type: 'string',
+        sql: sessions.sessionId as any,
+        primaryKey: true,
+      },
+      visitorId: {
+        name: 'visitorId',
+        title: 'Visitor ID',
+        type: 'string',
+        sql: sessions.visitorId as any,
+      },
+      userId: {
+        name: 'userId',
+        title: 'User ID',
+        type: 'string',
+        sql: sessions.userId as any,
+      },
+      startedAt: {
+        name: 'startedAt',
+        title: 'Session Start',
+        type: 'time',
+        sql: sessions.startedAt as any,
+      },
+      endedAt: {
+        name: 'endedAt',
+        title: 'Session End',
+        type: 'time',
+        sql: sessions.endedAt as any,
+      },
+      durationSeconds: {
+        name: 'durationSeconds',
+        title: 'Duration (Seconds)',
+        type: 'number',
+        sql: sessions.durationSeconds as any,
+      },
+      eventCount: {
+        name: 'eventCount',
+        title: 'Events',
+        type: 'number',
+        sql: sessions.eventCount as any,
+      },
+      landingPage: {
+        name: 'landingPage',
+        title: 'Landing Page',
+        type: 'string',
+        sql: sessions.landingPage as any,
+      },
+      exitPage: {
+        name: 'exitPage',
+        title: 'Exit Page',
+        type: 'string',
+        sql: sessions.exitPage as any,
+      },
+      isBounce: {
+        name: 'isBounce',
+        title: 'Is Bounce',
+        type: 'boolean',
+        sql: sessions.isBounce as any,
+      },
+    } as any,
+
+    measures: {
+      count: {
+        name: 'count',
+        title: 'Sessions',
+        type: 'count',
+        sql: sessions.sessionId as any,
+      },
+      avgDurationSeconds: {
+        name: 'avgDurationSeconds',
+        title: 'Average Session Duration (Seconds)',
+        type: 'avg',
+        sql: sessions.durationSeconds as any,
+      },
+      avgEventsPerSession: {
+        name: 'avgEventsPerSession',
+        title: 'Events per Session',
+        type: 'avg',
+        sql: sessions.eventCount as any,
+      },
+      bounceRate: {
+        name: 'bounceRate',
+        title: 'Bounce Rate',
+        type: 'avg',
+        sql: sql<number>`CASE WHEN ${sessions.isBounce} THEN 1.0 ELSE 0.0 END` as any,
+      },
+      uniqueVisitors: {
+        name: 'uniqueVisitors',
+        title: 'Unique Visitors',
+        type: 'countDistinct',
+        sql: sessions.visitorId as any,
+      },
+    },
+  }) as Cube;
+}
+
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export const sessionsCube = createSessionsCube();
@@ -0,0 +1,114 @@
+import { sql } from 'drizzle-orm';
+import { QueryBuilder } from 'drizzle-orm/pg-core';
+import { defineCube } from 'drizzle-cube/server';
+import type { Cube } from 'drizzle-cube/server';
+import type { PromotedColumn } from '@icelight/core';
+import { events } from '../schema/events.js';
+import { jsonField } from './json-helpers.js';
+import { DEFAULT_CUBE_CONFIG, type CubeJsonConfig, type JsonFieldConfig } from './json-config.js';
+
+// Note: Type assertions needed due to drizzle-orm version mismatch
+// drizzle-cube expects ^0.45.0, we're using 0.44.x
+// TODO: Remove assertions after drizzle-cube is updated
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * Build the users subquery
+ *
+ * One row per userId, with each configured trait set to its latest non-null
+ * value from identify events. Users are listed from all their events, so
+ * users who never sent an identify call are included with empty traits.
+ * Traits read their promoted columns when promoted, as in the Events cube.
+ */
+export function buildUsersQuery(traits: JsonFieldConfig[] = [], promoted: PromotedColumn[] = []) {
+  const qb = new QueryBuilder();
+
+  const traitColumns = Object.fromEntries(
+    traits.map(trait => {
+      const value = jsonField('traits', trait.path, trait.type, promoted);
+      return [
+        trait.name,
+        sql`arg_max(${value}, ${events.timestamp}) FILTER (WHERE ${events.type} = 'identify' AND ${value} IS NOT NULL)`.as(`trait_${trait.name}`),
+      ];
+    })
+  );
+
+  return qb
+    .select({
+      ...traitColumns,
+      userId: events.userId,
+      firstSeen: sql<Date>`MIN(${events.timestamp})`.as('first_seen'),
+      lastSeen: sql<Date>`MAX(${events.timestamp})`.as('last_seen'),
+    })
+    .from(events)
+    .where(sql`${events.userId} IS NOT NULL`)
+    .groupBy(events.userId)
+    .as('users');
+}
+
+/**
+ * Create the users cube with a dimension per configured trait
+ */
+export function createUsersCube(config: CubeJsonConfig = DEFAULT_CUBE_CONFIG): Cube {
+  const traits = config.traits ?? [];
+  const users = buildUsersQuery(traits, config.promotedColumns) as any;
+
+  const traitDimensions = Object.fromEntries(
+    traits.map(trait => [
+      trait.name,
+      {
+        name: trait.name,
+        title: trait.title ?? trait.name,
+        type: trait.type,
+        sql: users[trait.name],
+        shown: trait.shown ?? true,
+      },
+    ])
+  );
+
+  return defineCube('Users', {
+    title: 'Users',
+    description: 'Users with their latest traits from identify events',
+    public: true,
+
+    sql: () => ({
+      from: users,
+    }),
+
+    dimensions: {
+      userId: {
+        name: 'userId',
+        title: 'User ID',
+        type: 'string',
+        sql: users.userId,
+        primaryKey: true,
+      },
+      firstSeen: {
+        name: 'firstSeen',
+        title: 'First Seen',
+        type: 'time',
+        sql: users.firstSeen,
+      },
+      lastSeen: {
+        name: 'lastSeen',
+        title: 'Last Seen',
+        type: 'time',
+        sql: users.lastSeen,
+      },
+      ...traitDimensions,
+    } as any,
+
+    measures: {
+      count: {
+        name: 'count',
+        title: 'Users',
+        type: 'count',
+        sql: users.userId,
+      },
+    },
+  }) as Cube;
+}
+
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export const usersCube = createUsersCube();
@@ -40,7 +40,9 @@ export interface QueryEnv {
   // Cache configuration
   CACHE?: KVNamespace; // KV binding for drizzle-cube query result caching
   // D1 database for dashboard storage
-  DB?: D1Database; // D1 binding for dashboard configuration storage
+  DB?: D1Database; // D1 binding for dashboard configuration and identity map storage
+  // JSON array of promoted columns, as set on the ingest worker
+  PROMOTED_COLUMNS?: string;
 }
 
 export interface QueryRequest {
@@ -79,8 +81,8 @@ export interface CacheOptions {
  * Options for creating the query app
  */
 export interface QueryAppOptions {
-  /** Custom cube definitions (defaults to allCubes from events.ts) */
-  cubes?: Cube[];
+  /** Custom cube definitions, or a factory for cubes that depend on env (defaults to allCubes from events.ts) */
+  cubes?: Cube[] | ((env: QueryEnv) => Cube[]);
   /** Cache options for drizzle-cube query results (requires CACHE KV binding in env) */
   cache?: CacheOptions;
 }
@@ -96,6 +98,22 @@ function getR2Config(env: QueryEnv): R2SqlConfig {
   };
 }
 
+/**
+ * Create a connection to the DuckDB API worker
+ * Uses the Service Binding if configured, otherwise the URL.
+ */
+export function createDuckDbConnection(env: Pick<QueryEnv, 'DUCKDB_API' | 'DUCKDB_API_URL' | 'DUCKDB_API_TOKEN'>) {
+  const useServiceBinding = !!env.DUCKDB_API;
+  return new HttpDuckDBConnection({
+    // Service bindings need a valid URL (host is ignored, only path matters)
+    // External fetch needs the actual worker URL
+    endpoint: useServiceBinding ? 'https://duckdb-api' : (env.DUCKDB_API_URL as string),
+    token: env.DUCKDB_API_TOKEN,
+    timeout: 60000, // 60 seconds for cold starts
+    fetch: useServiceBinding ? env.DUCKDB_API!.fetch.bind(env.DUCKDB_API) : undefined,
+  });
+}
+
 /**
  * Create the Hono app for query API
  */
@@ -172,7 +190,7 @@ export function createQueryApp(options: QueryAppOptions = {}) {
         },
       };
     }
-    return handleCubeRequest(c, cubes, cacheConfig);
+    return handleCubeRequest(c, typeof cubes === 'function' ? cubes(c.env) : cubes, cacheConfig);
   });
 
   return app;
@@ -319,17 +337,7 @@ async function handleDuckDbQuery(c: QueryContext) {
 
   try {
     // Create connection to DuckDB API via HTTP adapter
-    // Use Service Binding if available (preferred), otherwise use URL
-    const useServiceBinding = !!c.env.DUCKDB_API;
-    const connection = new HttpDuckDBConnection({
-      // Service bindings need a valid URL (host is ignored, only path matters)
-      // External fetch needs the actual worker URL
-      endpoint: useServiceBinding ? 'https://duckdb-api' : (c.env.DUCKDB_API_URL as string),
-      token: c.env.DUCKDB_API_TOKEN,
-      timeout: 60000, // 60 seconds for cold starts
-      // If Service Binding is configured, use it for fetch
-      fetch: useServiceBinding ? c.env.DUCKDB_API!.fetch.bind(c.env.DUCKDB_API) : undefined,
-    });
+    const connection = createDuckDbConnection(c.env);
 
     // Create Drizzle instance with the HTTP connection
     // The HTTP adapter implements the same interface as @duckdb/node-api connection
@@ -490,13 +498,7 @@ async function handleCubeRequest(c: QueryContext, cubes: Cube[], cacheConfig?: C
   }
 
   // Create connection to DuckDB API via HTTP adapter
-  const useServiceBinding = !!c.env.DUCKDB_API;
-  const connection = new HttpDuckDBConnection({
-    endpoint: useServiceBinding ? 'https://duckdb-api' : (c.env.DUCKDB_API_URL as string),
-    token: c.env.DUCKDB_API_TOKEN,
-    timeout: 60000,
-    fetch: useServiceBinding ? c.env.DUCKDB_API!.fetch.bind(c.env.DUCKDB_API) : undefined,
-  });
+  const connection = createDuckDbConnection(c.env);
 
   // Create Drizzle instance with the HTTP connection
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -18,6 +18,21 @@ export type { Event, NewEvent } from './schema/events.js';
 
 // Drizzle-cube definitions
 export { createEventsCube, eventsCube, allCubes } from './cubes/events.js';
+export {
+  createSessionsCube,
+  sessionsCube,
+  buildSessionsQuery,
+  DEFAULT_SESSION_TIMEOUT_MINUTES,
+} from './cubes/sessions.js';
+export type { SessionsCubeOptions } from './cubes/sessions.js';
+export {
+  createIdentitiesCube,
+  identitiesCube,
+  buildIdentitiesQuery,
+  buildIdentityMapQuery,
+} from './cubes/identity.js';
+export { createUsersCube, usersCube, buildUsersQuery } from './cubes/users.js';
+export { createAccountsCube, accountsCube, buildAccountEventsQuery } from './cubes/accounts.js';
 
 // JSON configuration for cubes
 export {
@@ -28,7 +43,13 @@ export {
 export type { JsonFieldConfig, CubeJsonConfig } from './cubes/json-config.js';
 
 // JSON helpers (for advanced usage)
-export { jsonExtract, buildJsonDimension, buildJsonDimensions } from './cubes/json-helpers.js';
+export {
+  jsonExtract,
+  jsonField,
+  findPromotedColumn,
+  buildJsonDimension,
+  buildJsonDimensions,
+} from './cubes/json-helpers.js';
 export type { JsonDimension } from './cubes/json-helpers.js';
 
 // Default export - ready-to-use Hono app
@@ -24,6 +24,8 @@ export const events = pgTable('events', {
   // User identification
   userId: text('user_id'),
   anonymousId: text('anonymous_id'),
+  previousId: text('previous_id'), // For alias events
+  groupId: text('group_id'), // For group events
 
   // Event data
   event: text('event'), // For track events
@@ -36,8 +38,15 @@ export const events = pgTable('events', {
 
   // Timestamps (stored as microseconds in Iceberg)
   timestamp: timestamp('timestamp', { mode: 'date' }),
+  originalTimestamp: timestamp('original_timestamp', { mode: 'date' }),
   sentAt: timestamp('sent_at', { mode: 'date' }),
   receivedAt: timestamp('received_at', { mode: 'date' }),
+
+  // Source attribution (registered source whose write key sent the event)
+  sourceId: text('source_id'),
+
+  // Promoted columns (the PROMOTED_COLUMNS variable) differ per deployment,
+  // so they are not declared here; cubes reference them by name via jsonField()
 });
 
 /**
@@ -0,0 +1,70 @@
+/**
+ * Tests for the account events query builder
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAccountEventsQuery } from '../src/query/cubes/accounts.js';
+import type { JsonFieldConfig } from '../src/query/cubes/json-config.js';
+import { createEventsDb, type TestEvent } from './events-db.js';
+
+const GROUP_TRAITS: JsonFieldConfig[] = [{ name: 'industry', path: '$.industry', type: 'string' }];
+
+async function accountEventsOf(rows: TestEvent[]) {
+  const db = await createEventsDb(rows);
+  const accountEvents = buildAccountEventsQuery(GROUP_TRAITS) as any;
+  return db.select().from(accountEvents).orderBy(accountEvents.groupId, accountEvents.messageId);
+}
+
+function group(messageId: string, timestamp: string, groupId: string, ids: Partial<TestEvent>, traits?: Record<string, unknown>): TestEvent {
+  return { messageId, type: 'group', timestamp, groupId, traits, ...ids };
+}
+
+describe('buildAccountEventsQuery', () => {
+  it('repeats an event once per account its user belongs to', async () => {
+    const rows = await accountEventsOf([
+      group('g1', '2026-01-01 10:00:00', 'acme', { userId: 'user-1' }),
+      group('g2', '2026-01-01 10:00:00', 'globex', { userId: 'user-1' }),
+      { messageId: 'm1', type: 'track', timestamp: '2026-01-02 10:00:00', userId: 'user-1', properties: { revenue: 20 } },
+    ]);
+    const purchases = rows.filter(row => row.messageId === 'm1');
+
+    assert.deepEqual(
+      purchases.map(row => [row.groupId, row.memberId, Number(row.revenue)]),
+      [['acme', 'user-1', 20], ['globex', 'user-1', 20]]
+    );
+  });
+
+  it('leaves out events from users without a group call', async () => {
+    const rows = await accountEventsOf([
+      group('g1', '2026-01-01 10:00:00', 'acme', { userId: 'user-1' }),
+      { messageId: 'm1', type: 'track', timestamp: '2026-01-02 10:00:00', userId: 'user-2' },
+    ]);
+
+    assert.deepEqual(rows.map(row => row.messageId), ['g1']);
+  });
+
+  it('matches members by anonymousId when there is no userId', async () => {
+    const rows = await accountEventsOf([
+      group('g1', '2026-01-01 10:00:00', 'acme', { anonymousId: 'anon-1' }),
+      { messageId: 'm1', type: 'page', timestamp: '2026-01-02 10:00:00', anonymousId: 'anon-1' },
+    ]);
+
+    assert.deepEqual(rows.map(row => [row.messageId, row.memberId]), [['g1', 'anon-1'], ['m1', 'anon-1']]);
+  });
+
+  it('joins each account the latest non-null value of its traits', async () => {
+    const rows = await accountEventsOf([
+      group('g1', '2026-01-01 10:00:00', 'acme', { userId: 'user-1' }, { industry: 'retail' }),
+      group('g2', '2026-01-03 10:00:00', 'acme', { userId: 'user-2' }, { industry: 'tech' }),
+      group('g3', '2026-01-04 10:00:00', 'acme', { userId: 'user-1' }, { industry: null }),
+      group('g4', '2026-01-02 10:00:00', 'globex', { userId: 'user-3' }),
+    ]);
+    const industries = Object.fromEntries(rows.map(row => [row.groupId, row.industry]));
+
+    assert.deepEqual(industries, { acme: 'tech', globex: null });
+  });
+});
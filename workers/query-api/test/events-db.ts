@@ -0,0 +1,65 @@
+/**
+ * In-memory DuckDB with an events table, for running the cube query builders
+ */
+
+import { drizzle } from '@leonardovida-md/drizzle-neo-duckdb';
+import { sql } from 'drizzle-orm';
+
+export interface TestEvent {
+  messageId: string;
+  type: string;
+  timestamp: string;
+  userId?: string;
+  anonymousId?: string;
+  previousId?: string;
+  groupId?: string;
+  event?: string;
+  properties?: Record<string, unknown>;
+  traits?: Record<string, unknown>;
+  context?: Record<string, unknown>;
+}
+
+export type EventsDb = Awaited<ReturnType<typeof createEventsDb>>;
+
+/**
+ * Create a database holding the given events
+ * JSON fields are stored as text, as in the Iceberg table.
+ */
+export async function createEventsDb(rows: TestEvent[]) {
+  const db = await drizzle(':memory:');
+
+  await db.execute(sql.raw(`
+    CREATE TABLE events (
+      message_id VARCHAR NOT NULL,
+      type VARCHAR NOT NULL,
+      user_id VARCHAR,
+      anonymous_id VARCHAR,
+      previous_id VARCHAR,
+      group_id VARCHAR,
+      event VARCHAR,
+      name VARCHAR,
+      properties VARCHAR,
+      traits VARCHAR,
+      context VARCHAR,
+      timestamp TIMESTAMP,
+      original_timestamp TIMESTAMP,
+      sent_at TIMESTAMP,
+      received_at TIMESTAMP,
+      source_id VARCHAR
+    )
+  `));
+
+  for (const row of rows) {
+    const json = (value: Record<string, unknown> | undefined) => (value ? JSON.stringify(value) : null);
+    await db.execute(sql`
+      INSERT INTO events (message_id, type, user_id, anonymous_id, previous_id, group_id, event, properties, traits, context, timestamp, received_at)
+      VALUES (
+        ${row.messageId}, ${row.type}, ${row.userId ?? null}, ${row.anonymousId ?? null}, ${row.previousId ?? null},
+        ${row.groupId ?? null}, ${row.event ?? null}, ${json(row.properties)}, ${json(row.traits)}, ${json(row.context)},
+        CAST(${row.timestamp} AS TIMESTAMP), CAST(${row.timestamp} AS TIMESTAMP)
+      )
+    `);
+  }
+
+  return db;
+}
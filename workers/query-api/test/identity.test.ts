@@ -0,0 +1,104 @@
+/**
+ * Tests for the identity map and identities query builders
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildIdentitiesQuery, buildIdentityMapQuery } from '../src/query/cubes/identity.js';
+import { createEventsDb, type TestEvent } from './events-db.js';
+
+function track(messageId: string, timestamp: string, ids: Partial<TestEvent>): TestEvent {
+  return { messageId, type: 'track', timestamp, event: 'Clicked', ...ids };
+}
+
+function alias(messageId: string, timestamp: string, previousId: string, userId: string): TestEvent {
+  return { messageId, type: 'alias', timestamp, previousId, userId };
+}
+
+/** Identity map as { identifier: canonicalUserId } */
+async function identityMapOf(rows: TestEvent[]) {
+  const db = await createEventsDb(rows);
+  const identityMap = buildIdentityMapQuery();
+  const mappings = await db.select().from(identityMap).orderBy(identityMap.identifier);
+  return Object.fromEntries(mappings.map(row => [row.identifier, row.canonicalUserId]));
+}
+
+/** Canonical user ID of each event as { messageId: canonicalUserId } */
+async function identitiesOf(rows: TestEvent[]) {
+  const db = await createEventsDb(rows);
+  const identities = buildIdentitiesQuery();
+  const events = await db.select().from(identities).orderBy(identities.messageId);
+  return Object.fromEntries(events.map(row => [row.messageId, row.canonicalUserId]));
+}
+
+describe('buildIdentityMapQuery', () => {
+  it('links an anonymous ID to the user it identified as', async () => {
+    const identityMap = await identityMapOf([
+      track('m1', '2026-01-01 10:00:00', { anonymousId: 'anon-1' }),
+      { messageId: 'm2', type: 'identify', timestamp: '2026-01-01 10:05:00', anonymousId: 'anon-1', userId: 'user-1' },
+    ]);
+
+    assert.deepEqual(identityMap, { 'anon-1': 'user-1', 'user-1': 'user-1' });
+  });
+
+  it('follows chained aliases to the earliest-seen user ID', async () => {
+    const identityMap = await identityMapOf([
+      track('m1', '2026-01-01 10:00:00', { userId: 'user-1' }),
+      alias('m2', '2026-01-02 10:00:00', 'user-1', 'user-2'),
+      alias('m3', '2026-01-03 10:00:00', 'user-2', 'user-3'),
+      track('m4', '2026-01-03 11:00:00', { anonymousId: 'anon-3', userId: 'user-3' }),
+    ]);
+
+    assert.deepEqual(identityMap, {
+      'anon-3': 'user-1',
+      'user-1': 'user-1',
+      'user-2': 'user-1',
+      'user-3': 'user-1',
+    });
+  });
+
+  it('resolves aliases that link identifiers back and forth', async () => {
+    const identityMap = await identityMapOf([
+      track('m1', '2026-01-01 10:00:00', { anonymousId: 'anon-1', userId: 'user-1' }),
+      alias('m2', '2026-01-02 10:00:00', 'user-1', 'user-2'),
+      alias('m3', '2026-01-03 10:00:00', 'user-2', 'user-1'),
+      alias('m4', '2026-01-04 10:00:00', 'user-1', 'user-1'),
+    ]);
+
+    assert.deepEqual(identityMap, { 'anon-1': 'user-1', 'user-1': 'user-1', 'user-2': 'user-1' });
+  });
+
+  it('has no rows for anonymous IDs that were never linked', async () => {
+    const identityMap = await identityMapOf([
+      track('m1', '2026-01-01 10:00:00', { anonymousId: 'anon-1' }),
+      track('m2', '2026-01-01 11:00:00', { userId: 'user-1' }),
+    ]);
+
+    assert.deepEqual(identityMap, {});
+  });
+});
+
+describe('buildIdentitiesQuery', () => {
+  it('attributes events from every linked identifier to one person', async () => {
+    const identities = await identitiesOf([
+      track('m1', '2026-01-01 10:00:00', { anonymousId: 'anon-1' }),
+      track('m2', '2026-01-01 10:05:00', { anonymousId: 'anon-1', userId: 'user-1' }),
+      track('m3', '2026-01-02 10:00:00', { anonymousId: 'anon-2' }),
+      alias('m4', '2026-01-02 10:05:00', 'anon-2', 'user-1'),
+    ]);
+
+    assert.deepEqual(identities, { m1: 'user-1', m2: 'user-1', m3: 'user-1', m4: 'user-1' });
+  });
+
+  it('keeps unlinked events on their own user or anonymous ID', async () => {
+    const identities = await identitiesOf([
+      track('m1', '2026-01-01 10:00:00', { anonymousId: 'anon-1' }),
+      track('m2', '2026-01-01 11:00:00', { userId: 'user-1' }),
+    ]);
+
+    assert.deepEqual(identities, { m1: 'anon-1', m2: 'user-1' });
+  });
+});
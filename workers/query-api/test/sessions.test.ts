@@ -0,0 +1,98 @@
+/**
+ * Tests for the sessions query builder
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSessionsQuery } from '../src/query/cubes/sessions.js';
+import { createEventsDb, type TestEvent } from './events-db.js';
+
+function page(messageId: string, timestamp: string, path: string, ids: Partial<TestEvent> = { anonymousId: 'anon-1' }): TestEvent {
+  return { messageId, type: 'page', timestamp, context: { page: { path } }, ...ids };
+}
+
+async function sessionsOf(rows: TestEvent[], timeoutMinutes = 30) {
+  const db = await createEventsDb(rows);
+  const sessions = buildSessionsQuery(timeoutMinutes);
+  return db.select().from(sessions).orderBy(sessions.visitorId, sessions.startedAt);
+}
+
+describe('buildSessionsQuery', () => {
+  it('keeps events exactly one timeout apart in the same session', async () => {
+    const sessions = await sessionsOf([
+      page('m1', '2026-01-01 10:00:00', '/'),
+      page('m2', '2026-01-01 10:30:00', '/pricing'),
+    ]);
+
+    assert.equal(sessions.length, 1);
+    assert.equal(Number(sessions[0].eventCount), 2);
+    assert.equal(Number(sessions[0].durationSeconds), 1800);
+  });
+
+  it('starts a new session after a gap longer than the timeout', async () => {
+    const sessions = await sessionsOf([
+      page('m1', '2026-01-01 10:00:00', '/'),
+      page('m2', '2026-01-01 10:30:01', '/pricing'),
+    ]);
+
+    assert.deepEqual(
+      sessions.map(s => [s.landingPage, Number(s.eventCount)]),
+      [['/', 1], ['/pricing', 1]]
+    );
+    assert.notEqual(sessions[0].sessionId, sessions[1].sessionId);
+  });
+
+  it('applies the configured timeout', async () => {
+    const rows = [page('m1', '2026-01-01 10:00:00', '/'), page('m2', '2026-01-01 10:10:00', '/docs')];
+
+    assert.equal((await sessionsOf(rows, 10)).length, 1);
+    assert.equal((await sessionsOf(rows, 9)).length, 2);
+  });
+
+  it('measures the gap from the previous event, not from the session start', async () => {
+    const sessions = await sessionsOf([
+      page('m1', '2026-01-01 10:00:00', '/'),
+      page('m2', '2026-01-01 10:25:00', '/docs'),
+      page('m3', '2026-01-01 10:50:00', '/pricing'),
+    ]);
+
+    assert.equal(sessions.length, 1);
+    assert.equal(sessions[0].landingPage, '/');
+    assert.equal(sessions[0].exitPage, '/pricing');
+  });
+
+  it('sessions each visitor separately, falling back to userId', async () => {
+    const sessions = await sessionsOf([
+      page('m1', '2026-01-01 10:00:00', '/', { anonymousId: 'anon-1' }),
+      page('m2', '2026-01-01 10:01:00', '/', { userId: 'user-1' }),
+      page('m3', '2026-01-01 10:02:00', '/', { anonymousId: 'anon-1', userId: 'user-2' }),
+    ]);
+
+    assert.deepEqual(
+      sessions.map(s => [s.visitorId, s.userId, Number(s.eventCount)]),
+      [['anon-1', 'user-2', 2], ['user-1', 'user-1', 1]]
+    );
+  });
+
+  it('ignores identify and group events and counts bounces', async () => {
+    const sessions = await sessionsOf([
+      page('m1', '2026-01-01 10:00:00', '/'),
+      { messageId: 'm2', type: 'identify', timestamp: '2026-01-01 10:20:00', anonymousId: 'anon-1', userId: 'user-1' },
+      page('m3', '2026-01-01 10:45:00', '/'),
+      { messageId: 'm4', type: 'track', timestamp: '2026-01-01 10:46:00', anonymousId: 'anon-1', event: 'Signed Up' },
+    ]);
+
+    assert.deepEqual(
+      sessions.map(s => [Number(s.eventCount), s.isBounce]),
+      [[1, true], [2, false]]
+    );
+  });
+
+  it('rejects a timeout that is not a positive integer', () => {
+    assert.throws(() => buildSessionsQuery(0), /positive integer/);
+    assert.throws(() => buildSessionsQuery(1.5), /positive integer/);
+  });
+});
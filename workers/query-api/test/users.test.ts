@@ -0,0 +1,74 @@
+/**
+ * Tests for the users query builder
+ *
+ * Usage:
+ *   pnpm test
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sql } from 'drizzle-orm';
+import { buildUsersQuery } from '../src/query/cubes/users.js';
+import type { JsonFieldConfig } from '../src/query/cubes/json-config.js';
+import { createEventsDb, type TestEvent } from './events-db.js';
+
+const TRAITS: JsonFieldConfig[] = [
+  { name: 'plan', path: '$.plan', type: 'string' },
+  { name: 'seats', path: '$.seats', type: 'number' },
+];
+
+async function usersOf(rows: TestEvent[]) {
+  const db = await createEventsDb(rows);
+  const users = buildUsersQuery(TRAITS) as any;
+  return db.select().from(users).orderBy(users.userId);
+}
+
+describe('buildUsersQuery', () => {
+  it('takes each trait from the latest identify call that set it', async () => {
+    const [user] = await usersOf([
+      { messageId: 'm1', type: 'identify', timestamp: '2026-01-01 10:00:00', userId: 'user-1', traits: { plan: 'free', seats: 1 } },
+      { messageId: 'm2', type: 'identify', timestamp: '2026-01-03 10:00:00', userId: 'user-1', traits: { plan: 'pro' } },
+      { messageId: 'm3', type: 'identify', timestamp: '2026-01-02 10:00:00', userId: 'user-1', traits: { plan: 'team', seats: 5 } },
+    ]);
+
+    assert.equal(user.plan, 'pro');
+    assert.equal(user.seats, 5);
+  });
+
+  it('ignores traits on other event types and null trait values', async () => {
+    const [user] = await usersOf([
+      { messageId: 'm1', type: 'identify', timestamp: '2026-01-01 10:00:00', userId: 'user-1', traits: { plan: 'free' } },
+      { messageId: 'm2', type: 'track', timestamp: '2026-01-02 10:00:00', userId: 'user-1', traits: { plan: 'enterprise' } },
+      { messageId: 'm3', type: 'identify', timestamp: '2026-01-03 10:00:00', userId: 'user-1', traits: { plan: null } },
+    ]);
+
+    assert.equal(user.plan, 'free');
+  });
+
+  it('lists users who never identified, with empty traits and first/last seen times', async () => {
+    const users = await usersOf([
+      { messageId: 'm1', type: 'track', timestamp: '2026-01-01 10:00:00', userId: 'user-2' },
+      { messageId: 'm2', type: 'page', timestamp: '2026-01-05 10:00:00', userId: 'user-2' },
+      { messageId: 'm3', type: 'page', timestamp: '2026-01-02 10:00:00', anonymousId: 'anon-1' },
+    ]);
+
+    assert.equal(users.length, 1);
+    assert.equal(users[0].userId, 'user-2');
+    assert.equal(users[0].plan, null);
+    assert.equal(new Date(users[0].firstSeen).toISOString(), '2026-01-01T10:00:00.000Z');
+    assert.equal(new Date(users[0].lastSeen).toISOString(), '2026-01-05T10:00:00.000Z');
+  });
+
+  it('reads promoted trait columns instead of the traits JSON', async () => {
+    const db = await createEventsDb([
+      { messageId: 'm1', type: 'identify', timestamp: '2026-01-01 10:00:00', userId: 'user-1', traits: { plan: 'free' } },
+    ]);
+    await db.execute(sql.raw(`ALTER TABLE events ADD COLUMN plan VARCHAR`));
+    await db.execute(sql.raw(`UPDATE events SET plan = 'pro'`));
+    const users = buildUsersQuery(TRAITS, [{ name: 'plan', path: '$.traits.plan', type: 'string' }]) as any;
+
+    const [user] = await db.select().from(users);
+
+    assert.equal(user.plan, 'pro');
+  });
+});